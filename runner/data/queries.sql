@@ -1,3 +1,10 @@
+-- Every query is filtered to one tournament and stage, given as parameters.
+-- The database can hold several tournaments, keyed by TOURNAMENT_ID in
+-- config.ts. The stage is 'round-robin', 'swiss', 'third-place', 'finals' or
+-- 'bracket'. In the sqlite3 shell, set them before running a query:
+--   .parameter set :tournament "'gleam-chess-2025'"
+--   .parameter set :stage "'round-robin'"
+
 -- Game outcomes by player
 with player_with_outcome as (
 	select
@@ -9,6 +16,7 @@ with player_with_outcome as (
 			else 'LOSS'
 		end as outcome
 	from game
+	where tournament = :tournament and stage = :stage
 
 	union all
 
@@ -21,6 +29,7 @@ with player_with_outcome as (
 			else 'LOSS'
 		end as outcome
 	from game
+	where tournament = :tournament and stage = :stage
 )
 
 select player, outcome, count(*)
@@ -32,11 +41,13 @@ order by player, outcome;
 with stats_by_player as (
 	select white_player as player, duration_ms
 	from game
+	where tournament = :tournament and stage = :stage
 
 	union all
 
 	select black_player as player, duration_ms
 	from game
+	where tournament = :tournament and stage = :stage
 )
 
 select
@@ -49,24 +60,30 @@ group by player;
 
 -- Move time histograms
 select
-	floor(duration_ms / 25) * 25 as range_start,
-	floor(duration_ms / 25) * 25 + 25 as range_stop,
+	floor(move.duration_ms / 25) * 25 as range_start,
+	floor(move.duration_ms / 25) * 25 + 25 as range_stop,
 	count(*) as count
 from move
+join game on game.id = move.game_id
+where game.tournament = :tournament and game.stage = :stage
 group by 1, 2 order by 1;
 
 -- Duration by move number
 select
 	move_number,
-	avg(duration_ms) as avg_duration
+	avg(move.duration_ms) as avg_duration
 from move
+join game on game.id = move.game_id
+where game.tournament = :tournament and game.stage = :stage
 group by 1 order by 1;
 
 select
-    player,
+	player,
 	move_number,
-	avg(duration_ms) as avg_duration
+	avg(move.duration_ms) as avg_duration
 from move
+join game on game.id = move.game_id
+where game.tournament = :tournament and game.stage = :stage
 group by 1, 2 order by 2, 1;
 
 -- Longest game
@@ -78,6 +95,7 @@ left join (
 	group by 1
 ) as m
 	on g.id = m.game_id
+where g.tournament = :tournament and g.stage = :stage
 order by move_number desc
 limit 10;
 
@@ -90,5 +108,6 @@ left join (
 	group by 1
 ) as m
 	on g.id = m.game_id
+where g.tournament = :tournament and g.stage = :stage
 order by move_number asc
 limit 10;
@@ -0,0 +1,70 @@
+import { describe, expect, test } from "bun:test";
+import { Chess } from "chess.js";
+import {
+  ADJUDICATION_RULES,
+  type AdjudicationRules,
+  createAdjudicator,
+} from "./adjudication";
+
+const OFF: AdjudicationRules = {
+  drawAfterMoves: null,
+  drawMaxMaterialDifference: 1,
+  winMaterialLead: null,
+  winAfterPlies: 20,
+  basicEndgames: false,
+};
+
+function adjudicate(fen: string, rules: Partial<AdjudicationRules>) {
+  return createAdjudicator({ ...OFF, ...rules })(new Chess(fen));
+}
+
+describe("createAdjudicator", () => {
+  test("is off unless the config turns it on", () => {
+    const adjudicate = createAdjudicator();
+    expect(ADJUDICATION_RULES).toEqual(OFF);
+    expect(adjudicate(new Chess("4k3/8/8/8/8/8/8/Q3K3 b - - 0 1"))).toBeNull();
+  });
+
+  test("wins a basic endgame for the side with the piece", () => {
+    // The queen gives check, but the white king defends it
+    expect(
+      adjudicate("8/8/8/8/8/3k4/3Q4/4K3 b - - 0 1", { basicEndgames: true }),
+    ).toEqual({
+      type: "WIN",
+      winner: "white",
+      reason: "ADJUDICATED_BASIC_ENDGAME",
+    });
+  });
+
+  test("doesn't adjudicate a basic endgame while the bare king can take the piece", () => {
+    expect(
+      adjudicate("8/8/8/8/3Q4/3k4/8/4K3 b - - 0 1", { basicEndgames: true }),
+    ).toBeNull();
+  });
+
+  test("wins for a material lead held long enough", () => {
+    const adjudicate = createAdjudicator({
+      ...OFF,
+      winMaterialLead: 9,
+      winAfterPlies: 3,
+    });
+    const chess = new Chess("3qk3/8/8/8/8/8/8/4K3 w - - 0 1");
+    expect(adjudicate(chess)).toBeNull();
+    expect(adjudicate(chess)).toBeNull();
+    expect(adjudicate(chess)).toEqual({
+      type: "WIN",
+      winner: "black",
+      reason: "ADJUDICATED_MATERIAL_LEAD",
+    });
+  });
+
+  test("draws a long game with level material", () => {
+    const rules = { drawAfterMoves: 100 };
+    expect(adjudicate("r3k3/8/8/8/8/8/8/R3K3 w - - 0 100", rules)).toBeNull();
+    expect(adjudicate("r3k3/8/8/8/8/8/8/R3K3 w - - 0 101", rules)).toEqual({
+      type: "DRAW",
+      reason: "ADJUDICATED_BALANCED_MATERIAL",
+    });
+    expect(adjudicate("r3k3/8/8/8/8/8/8/RR2K3 w - - 0 101", rules)).toBeNull();
+  });
+});
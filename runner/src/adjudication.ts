@@ -0,0 +1,136 @@
+import type { Chess, PieceSymbol } from "chess.js";
+import {
+  ADJUDICATE_BASIC_ENDGAMES,
+  ADJUDICATE_DRAW_AFTER_MOVES,
+  ADJUDICATE_DRAW_MAX_MATERIAL_DIFFERENCE,
+  ADJUDICATE_WIN_AFTER_PLIES,
+  ADJUDICATE_WIN_MATERIAL_LEAD,
+} from "./config";
+import type { Player } from "./game";
+import { colourToPlayer } from "./players";
+
+export type Adjudication =
+  | { type: "DRAW"; reason: "ADJUDICATED_BALANCED_MATERIAL" }
+  | {
+      type: "WIN";
+      winner: Player;
+      reason: "ADJUDICATED_MATERIAL_LEAD" | "ADJUDICATED_BASIC_ENDGAME";
+    };
+
+export const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 1,
+  n: 3,
+  b: 3,
+  r: 5,
+  q: 9,
+  k: 0,
+};
+
+function pieces(chess: Chess) {
+  return chess
+    .board()
+    .flatMap((row) => row.filter((square) => square !== null));
+}
+
+/**
+ * Material of white minus material of black, in pawns.
+ */
+function materialBalance(chess: Chess) {
+  return pieces(chess).reduce(
+    (acc, { type, color }) =>
+      acc + (color === "w" ? 1 : -1) * PIECE_VALUES[type],
+    0,
+  );
+}
+
+/**
+ * King and queen or king and rook against a bare king, which any engine can
+ * convert. Not while the bare king can take the lone piece on its move,
+ * since that's a draw instead.
+ */
+function basicEndgameWinner(chess: Chess): Player | null {
+  const nonKings = pieces(chess).filter(({ type }) => type !== "k");
+  const [piece] = nonKings;
+  if (
+    nonKings.length !== 1 ||
+    !piece ||
+    (piece.type !== "q" && piece.type !== "r")
+  ) {
+    return null;
+  }
+  const bareKing = piece.color === "w" ? "b" : "w";
+  // With only the kings left, the piece can only be attacked by the bare
+  // king and defended by its own
+  const hanging =
+    chess.turn() === bareKing &&
+    chess.isAttacked(piece.square, bareKing) &&
+    !chess.isAttacked(piece.square, piece.color);
+  return hanging ? null : colourToPlayer(piece.color);
+}
+
+export type AdjudicationRules = {
+  drawAfterMoves: number | null;
+  drawMaxMaterialDifference: number;
+  winMaterialLead: number | null;
+  winAfterPlies: number;
+  basicEndgames: boolean;
+};
+
+// The rules set in config.ts
+export const ADJUDICATION_RULES: AdjudicationRules = {
+  drawAfterMoves: ADJUDICATE_DRAW_AFTER_MOVES,
+  drawMaxMaterialDifference: ADJUDICATE_DRAW_MAX_MATERIAL_DIFFERENCE,
+  winMaterialLead: ADJUDICATE_WIN_MATERIAL_LEAD,
+  winAfterPlies: ADJUDICATE_WIN_AFTER_PLIES,
+  basicEndgames: ADJUDICATE_BASIC_ENDGAMES,
+};
+
+/**
+ * Create an adjudicator for a single game. It's called after every move,
+ * and keeps track of how long one side has held a material lead.
+ */
+export function createAdjudicator(
+  rules: AdjudicationRules = ADJUDICATION_RULES,
+) {
+  let leader: Player | null = null;
+  let leadPlies = 0;
+
+  return (chess: Chess): Adjudication | null => {
+    if (rules.basicEndgames) {
+      const winner = basicEndgameWinner(chess);
+      if (winner) {
+        return { type: "WIN", winner, reason: "ADJUDICATED_BASIC_ENDGAME" };
+      }
+    }
+
+    const balance = materialBalance(chess);
+
+    if (rules.winMaterialLead !== null) {
+      const currentLeader =
+        Math.abs(balance) >= rules.winMaterialLead
+          ? balance > 0
+            ? "white"
+            : "black"
+          : null;
+      leadPlies = currentLeader && currentLeader === leader ? leadPlies + 1 : 1;
+      leader = currentLeader;
+      if (leader && leadPlies >= rules.winAfterPlies) {
+        return {
+          type: "WIN",
+          winner: leader,
+          reason: "ADJUDICATED_MATERIAL_LEAD",
+        };
+      }
+    }
+
+    if (
+      rules.drawAfterMoves !== null &&
+      chess.moveNumber() > rules.drawAfterMoves &&
+      Math.abs(balance) <= rules.drawMaxMaterialDifference
+    ) {
+      return { type: "DRAW", reason: "ADJUDICATED_BALANCED_MATERIAL" };
+    }
+
+    return null;
+  };
+}
@@ -0,0 +1,398 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Chess } from "chess.js";
+import entriesJson from "../data/entries.json" with { type: "json" };
+import { type Adjudication, createAdjudicator } from "./adjudication";
+import { readBracketState, resolveSlot } from "./bracket";
+import {
+  BRACKET_RESULTS_DIRECTORY,
+  FINALS_PLAYERS_FILE,
+  FINALS_RESULTS_DIRECTORY,
+  PGN_DIRECTORY,
+  ROUND_ROBIN_RESULTS_DIRECTORY,
+  SWISS_RESULTS_DIRECTORY,
+  THIRD_PLACE_PLAYERS_FILE,
+  THIRD_PLACE_RESULTS_DIRECTORY,
+} from "./config";
+import { isWithdrawn, loadFailureLog } from "./failures";
+import type { GameOutcome, Player, Players } from "./game";
+import { readOutcome } from "./outcome-schema";
+import { listResultFiles, openingNumber, STAGES, type Stage } from "./outcomes";
+import { Result } from "./result";
+import type { Entry } from "./runtime";
+import {
+  getFinalsGames,
+  getRoundRobinPgns,
+  getThirdPlaceGames,
+  listPgnFiles,
+  permutations,
+  readStagePlayers,
+  resultFileName,
+} from "./stage-games";
+import { readSwissState } from "./swiss";
+
+const entries = entriesJson as Entry[];
+
+type Problem = { filePath: string; problem: string };
+
+type ScheduledGame = {
+  players: Players;
+  pgnPath: string;
+  saveDir: string;
+  // False for games that may not have been played yet, e.g. those of a
+  // bracket match that's still going
+  required: boolean;
+};
+
+type Ending = Pick<GameOutcome, "type" | "reason"> & { winner: string | null };
+
+function bothColours(
+  [player1, player2]: [string, string],
+  pgnPaths: string[],
+  saveDir: string,
+  required = true,
+): ScheduledGame[] {
+  return pgnPaths.flatMap((pgnPath) => [
+    { players: { white: player1, black: player2 }, pgnPath, saveDir, required },
+    { players: { white: player2, black: player1 }, pgnPath, saveDir, required },
+  ]);
+}
+
+async function matchGames(
+  playersFile: string,
+  pgnPaths: string[],
+  saveDir: string,
+) {
+  if (!(await Bun.file(playersFile).exists())) {
+    console.warn(
+      `No ${playersFile}, so the games in ${saveDir} can't be checked against a schedule`,
+    );
+    return null;
+  }
+  return bothColours(await readStagePlayers(playersFile), pgnPaths, saveDir);
+}
+
+/**
+ * Every game a stage should have a result for, going by the same schedule
+ * the runner plays from, or null if there's no schedule to check against.
+ */
+async function scheduledGames(stage: Stage): Promise<ScheduledGame[] | null> {
+  if (stage.directory === ROUND_ROBIN_RESULTS_DIRECTORY) {
+    const pgnPaths = await getRoundRobinPgns();
+    return permutations(entries.map((entry) => entry.name)).flatMap((pair) =>
+      bothColours(pair, pgnPaths, stage.directory),
+    );
+  }
+
+  if (stage.directory === SWISS_RESULTS_DIRECTORY) {
+    const { rounds } = await readSwissState();
+    return rounds.flatMap(({ opening, pairings }) =>
+      pairings.map((players) => ({
+        players,
+        pgnPath: path.join(PGN_DIRECTORY, opening),
+        saveDir: stage.directory,
+        required: true,
+      })),
+    );
+  }
+
+  if (stage.directory === THIRD_PLACE_RESULTS_DIRECTORY) {
+    return matchGames(
+      THIRD_PLACE_PLAYERS_FILE,
+      await getThirdPlaceGames(),
+      stage.directory,
+    );
+  }
+
+  if (stage.directory === FINALS_RESULTS_DIRECTORY) {
+    return matchGames(
+      FINALS_PLAYERS_FILE,
+      await getFinalsGames(),
+      stage.directory,
+    );
+  }
+
+  if (stage.directory === BRACKET_RESULTS_DIRECTORY) {
+    const state = await readBracketState();
+    if (!state) {
+      console.warn(
+        `No bracket state, so the games in ${stage.directory} can't be checked against a schedule`,
+      );
+      return null;
+    }
+    // Matches that are still being played, or were settled without games,
+    // aren't expected to have every result
+    return state.matches.flatMap((bracketMatch) => {
+      const player1 = resolveSlot(state, bracketMatch.slots[0]);
+      const player2 = resolveSlot(state, bracketMatch.slots[1]);
+      if (!player1 || !player2) {
+        return [];
+      }
+      return bothColours(
+        [player1, player2],
+        bracketMatch.openings.map((opening) =>
+          path.join(PGN_DIRECTORY, opening),
+        ),
+        path.join(BRACKET_RESULTS_DIRECTORY, bracketMatch.id),
+        bracketMatch.result !== null &&
+          bracketMatch.result.decidedBy !== "WALKOVER",
+      );
+    });
+  }
+
+  return null;
+}
+
+/**
+ * How the game should have ended in its final position, going by the same
+ * checks as the game loop.
+ */
+function naturalEnding(chess: Chess, players: Players): Ending | null {
+  if (chess.isDraw()) {
+    const reason = chess.isStalemate()
+      ? "STALEMATE"
+      : chess.isInsufficientMaterial()
+        ? "INSUFFICIENT_MATERIAL"
+        : chess.isDrawByFiftyMoves()
+          ? "FIFTY_MOVES"
+          : chess.isThreefoldRepetition()
+            ? "THREEFOLD_REPETITION"
+            : "OTHER";
+    return { type: "DRAW", reason, winner: null };
+  }
+  if (chess.isCheckmate()) {
+    // The side to move has been mated
+    const winner = chess.turn() === "w" ? players.black : players.white;
+    return { type: "WIN", reason: "CHECKMATE", winner };
+  }
+  return null;
+}
+
+function describe({ type, reason, winner }: Ending) {
+  return winner ? `${type} (${reason}) for ${winner}` : `${type} (${reason})`;
+}
+
+/**
+ * Replay a game from its starting position and check that the saved moves,
+ * PGN and outcome all agree with it.
+ */
+function auditGame(outcome: GameOutcome, openingPgn: string): string[] {
+  const problems: string[] = [];
+  const chess = new Chess();
+  chess.loadPgn(openingPgn, { strict: false });
+
+  const adjudicate = createAdjudicator();
+  let adjudication: { ply: number; result: Adjudication } | null = null;
+
+  for (const [i, move] of outcome.moves.entries()) {
+    if (move.before !== chess.fen()) {
+      problems.push(
+        `moves[${i}].before is ${move.before}, but the replayed position is ${chess.fen()}`,
+      );
+    }
+    const moveResult = Result.try(() => chess.move(move.lan));
+    if (!moveResult.ok) {
+      problems.push(`moves[${i}] ${move.lan} is illegal in ${chess.fen()}`);
+      return problems;
+    }
+    if (moveResult.data.san !== move.san) {
+      problems.push(
+        `moves[${i}].san is ${move.san}, but ${move.lan} is ${moveResult.data.san}`,
+      );
+    }
+    if (move.after !== chess.fen()) {
+      problems.push(
+        `moves[${i}].after is ${move.after}, but the replayed position is ${chess.fen()}`,
+      );
+    }
+    if (!adjudication && !chess.isGameOver()) {
+      const result = adjudicate(chess);
+      if (result) {
+        adjudication = { ply: i, result };
+      }
+    }
+  }
+
+  const saved = new Chess();
+  const pgnResult = Result.try(() =>
+    saved.loadPgn(outcome.pgn, { strict: false }),
+  );
+  if (!pgnResult.ok) {
+    problems.push(`pgn can't be loaded: ${pgnResult.error.message}`);
+  } else if (saved.fen() !== chess.fen()) {
+    problems.push(
+      `pgn ends in ${saved.fen()}, but the replayed moves end in ${chess.fen()}`,
+    );
+  }
+
+  const recorded: Ending = {
+    type: outcome.type,
+    reason: outcome.reason,
+    winner: outcome.type === "WIN" ? outcome.winner : null,
+  };
+  const natural = naturalEnding(chess, outcome.players);
+  const toMove: Player = chess.turn() === "w" ? "white" : "black";
+  const notToMove: Player = toMove === "white" ? "black" : "white";
+
+  let expected: Ending | null = natural;
+  if (!natural) {
+    if ("opponentErrors" in outcome) {
+      // Forfeits are lost by the bot that failed to move
+      expected = { ...recorded, winner: outcome.players[notToMove] };
+    } else if (outcome.reason.startsWith("ADJUDICATED_")) {
+      const lastPly = outcome.moves.length - 1;
+      if (adjudication?.ply === lastPly) {
+        const { result } = adjudication;
+        expected = {
+          type: result.type,
+          reason: result.reason,
+          winner: result.type === "WIN" ? outcome.players[result.winner] : null,
+        };
+      }
+    }
+  }
+
+  if (!expected) {
+    problems.push(
+      `${describe(recorded)} is recorded, but the game isn't over after the saved moves`,
+    );
+  } else if (
+    expected.type !== recorded.type ||
+    expected.reason !== recorded.reason ||
+    expected.winner !== recorded.winner
+  ) {
+    problems.push(
+      `${describe(recorded)} is recorded, but replaying gives ${describe(expected)}`,
+    );
+  }
+
+  return problems;
+}
+
+/**
+ * Check every result file: that it's valid, that it replays to the recorded
+ * outcome, that no game is saved twice, that every game is in the schedule
+ * and that no scheduled game is missing, apart from those of withdrawn bots. Exits with a non-zero code
+ * if anything is wrong, so it can gate publishing results.
+ */
+async function main() {
+  await loadFailureLog();
+  const pgnPaths = await listPgnFiles();
+  const openingPgns = new Map<number, string>();
+  for (const pgnPath of pgnPaths) {
+    openingPgns.set(
+      Number.parseInt(path.basename(pgnPath)),
+      await Bun.file(pgnPath).text(),
+    );
+  }
+
+  const problems: Problem[] = [];
+  let audited = 0;
+
+  for (const stage of STAGES) {
+    if (!(await fs.exists(stage.directory))) {
+      continue;
+    }
+
+    const filePaths = await listResultFiles(stage.directory, {
+      recursive: stage.recursive,
+    });
+    const games = new Map<string, string>();
+
+    for (const filePath of filePaths) {
+      audited++;
+      const outcomeResult = await readOutcome(filePath);
+      if (!outcomeResult.ok) {
+        problems.push({ filePath, problem: outcomeResult.error.message });
+        continue;
+      }
+      const outcome = outcomeResult.data;
+      const { white, black } = outcome.players;
+
+      if (!path.basename(filePath).startsWith(`${white}-${black}-`)) {
+        problems.push({
+          filePath,
+          problem: `the file name doesn't match its players, ${white} and ${black}`,
+        });
+      }
+
+      const opening = openingNumber(filePath);
+      const key = [path.dirname(filePath), white, black, opening].join("\n");
+      const original = games.get(key);
+      if (original) {
+        problems.push({
+          filePath,
+          problem: `duplicates ${path.basename(original)}`,
+        });
+      }
+      games.set(key, original ?? filePath);
+
+      const openingPgn = openingPgns.get(opening);
+      if (openingPgn === undefined) {
+        problems.push({
+          filePath,
+          problem: `no starting position ${opening} in ${PGN_DIRECTORY}`,
+        });
+        continue;
+      }
+      for (const problem of auditGame(outcome, openingPgn)) {
+        problems.push({ filePath, problem });
+      }
+    }
+
+    const schedule = await scheduledGames(stage);
+    if (!schedule) {
+      continue;
+    }
+
+    const scheduled = new Set(
+      schedule.map(({ players, pgnPath, saveDir }) =>
+        path.join(saveDir, resultFileName(players, pgnPath)),
+      ),
+    );
+    for (const filePath of filePaths) {
+      if (!scheduled.has(filePath)) {
+        problems.push({
+          filePath,
+          problem: `isn't a game in the ${stage.label} schedule`,
+        });
+      }
+    }
+
+    const saved = new Set(filePaths);
+    // Games a withdrawn bot didn't get to play aren't missing
+    const withdrawnGames = new Map<string, number>();
+    for (const { players, pgnPath, saveDir, required } of schedule) {
+      const filePath = path.join(saveDir, resultFileName(players, pgnPath));
+      if (saved.has(filePath) || !required) {
+        continue;
+      }
+      const withdrawn = [players.white, players.black].find(isWithdrawn);
+      if (withdrawn) {
+        withdrawnGames.set(withdrawn, (withdrawnGames.get(withdrawn) ?? 0) + 1);
+      } else {
+        problems.push({
+          filePath,
+          problem: `missing ${stage.label} game between ${players.white} and ${players.black}`,
+        });
+      }
+    }
+    for (const [bot, count] of withdrawnGames) {
+      console.warn(
+        `${bot} was withdrawn, so ${count} of its ${stage.label} games weren't played`,
+      );
+    }
+  }
+
+  for (const { filePath, problem } of problems) {
+    console.error(`${path.relative(process.cwd(), filePath)}: ${problem}`);
+  }
+  console.log(
+    `Audited ${audited} result files, found ${problems.length} problems`,
+  );
+  if (problems.length > 0) {
+    process.exit(1);
+  }
+}
+
+await main();
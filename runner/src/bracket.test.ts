@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import {
+  advanceBracket,
+  type BracketState,
+  bracketChampion,
+  createBracket,
+} from "./bracket";
+
+const SEEDS = ["s1", "s2", "s3", "s4", "s5", "s6", "s7", "s8"];
+
+/**
+ * Play every match in the bracket, returning the ids of the matches played
+ * in order.
+ */
+function playOut(
+  state: BracketState,
+  pickWinner: (players: [string, string], id: string) => string,
+): string[] {
+  const played: string[] = [];
+  for (
+    let ready = advanceBracket(state);
+    ready.length > 0;
+    ready = advanceBracket(state)
+  ) {
+    for (const { match, players } of ready) {
+      const winner = pickWinner(players, match.id);
+      const loser = players.find((player) => player !== winner) as string;
+      match.result = { winner, loser, decidedBy: "GAMES" };
+      played.push(match.id);
+    }
+  }
+  return played;
+}
+
+// The better seed always wins
+function bySeed([first, second]: [string, string]) {
+  return SEEDS.indexOf(first) < SEEDS.indexOf(second) ? first : second;
+}
+
+describe("createBracket", () => {
+  test("keeps the best seeds apart until the last rounds", () => {
+    const state = createBracket("single", SEEDS);
+    expect(advanceBracket(state).map(({ players }) => players)).toEqual([
+      ["s1", "s8"],
+      ["s4", "s5"],
+      ["s2", "s7"],
+      ["s3", "s6"],
+    ]);
+  });
+
+  test("gives byes to the best seeds", () => {
+    const state = createBracket("single", ["s1", "s2", "s3"]);
+    expect(advanceBracket(state).map(({ players }) => players)).toEqual([
+      ["s2", "s3"],
+    ]);
+    expect(state.matches[0]?.result).toEqual({
+      winner: "s1",
+      loser: null,
+      decidedBy: "WALKOVER",
+    });
+  });
+
+  test("needs at least two players", () => {
+    expect(() => createBracket("single", ["s1"])).toThrow();
+  });
+});
+
+describe("advanceBracket", () => {
+  test("plays a single elimination bracket down to a champion", () => {
+    const state = createBracket("single", SEEDS);
+    expect(playOut(state, bySeed)).toHaveLength(SEEDS.length - 1);
+    expect(bracketChampion(state)).toBe("s1");
+  });
+
+  test("skips the grand final reset when the winners bracket finalist wins", () => {
+    const state = createBracket("double", SEEDS);
+    const played = playOut(state, bySeed);
+    expect(played).not.toContain("GF2");
+    expect(state.matches.at(-1)?.result?.decidedBy).toBe("SKIPPED");
+    expect(bracketChampion(state)).toBe("s1");
+  });
+
+  test("plays the grand final reset when the losers bracket finalist wins", () => {
+    const state = createBracket("double", SEEDS);
+    // s2 loses once in the winners bracket final, then wins every match
+    const played = playOut(state, (players, id) =>
+      players.includes("s2") && id !== "W3-1" ? "s2" : bySeed(players),
+    );
+    expect(played.slice(-2)).toEqual(["GF", "GF2"]);
+    expect(bracketChampion(state)).toBe("s2");
+  });
+});
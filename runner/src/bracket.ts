@@ -0,0 +1,283 @@
+import * as fs from "node:fs/promises";
+import { BRACKET_STATE_FILE } from "./config";
+
+export type BracketFormat = "single" | "double";
+
+type Slot = { seed: number } | { winnerOf: string } | { loserOf: string };
+
+export type MatchResult = {
+  // A null winner or loser is a bye, which carries on through the bracket
+  winner: string | null;
+  loser: string | null;
+  decidedBy: "GAMES" | "SEED" | "WALKOVER" | "SKIPPED";
+};
+
+export type BracketMatch = {
+  id: string;
+  slots: [Slot, Slot];
+  // Only played if the losers bracket finalist wins the first grand final
+  reset?: boolean;
+  // File names of the starting positions played so far, including tiebreaks
+  openings: string[];
+  result: MatchResult | null;
+};
+
+export type BracketState = {
+  format: BracketFormat;
+  // Bot names, best seed first
+  seeds: string[];
+  matches: BracketMatch[];
+};
+
+export function parseBracketFormat(value: string): BracketFormat {
+  if (value !== "single" && value !== "double") {
+    throw new Error(
+      `Bracket format must be "single" or "double", got "${value}"`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse --bracket-players, which must leave at least two of the seeds.
+ */
+export function parseBracketPlayers(value: string, seeds: number): number {
+  const players = Number(value);
+  if (!Number.isInteger(players) || players < 2 || players > seeds) {
+    throw new Error(
+      `--bracket-players must be a whole number from 2 to ${seeds}, got "${value}"`,
+    );
+  }
+  return players;
+}
+
+/**
+ * Read bot names from a standings CSV, best first. Rows are ordered by the
+ * `rank` column if there is one, or by file order otherwise.
+ */
+export async function readSeeds(filePath: string): Promise<string[]> {
+  const [header, ...rows] = (await Bun.file(filePath).text())
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => line.split(","));
+  const botColumn = header?.indexOf("bot") ?? -1;
+  if (!header || botColumn === -1) {
+    throw new Error(`No bot column in standings file ${filePath}`);
+  }
+  const rankColumn = header.indexOf("rank");
+
+  return rows
+    .toSorted((a, b) =>
+      rankColumn === -1 ? 0 : Number(a[rankColumn]) - Number(b[rankColumn]),
+    )
+    .map((row) => row[botColumn] as string);
+}
+
+export async function readBracketState(): Promise<BracketState | null> {
+  const file = Bun.file(BRACKET_STATE_FILE);
+  if (!(await file.exists())) {
+    return null;
+  }
+  return (await file.json()) as BracketState;
+}
+
+// Bracket matches are played in parallel, so writes are queued to stop them
+// interleaving
+let lastWrite: Promise<void> = Promise.resolve();
+
+export function writeBracketState(state: BracketState): Promise<void> {
+  const json = JSON.stringify(state, null, 2);
+  const write = lastWrite.then(async () => {
+    const tempFile = `${BRACKET_STATE_FILE}.tmp`;
+    await Bun.write(tempFile, json);
+    await fs.rename(tempFile, BRACKET_STATE_FILE);
+  });
+  lastWrite = write.catch(() => {});
+  return write;
+}
+
+/**
+ * Order seeds so the best seeds can only meet in the latest rounds, e.g.
+ * 1, 8, 4, 5, 2, 7, 3, 6 for eight players.
+ */
+function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap((seed) => [seed, length + 1 - seed]);
+  }
+  return order;
+}
+
+function match(id: string, slots: [Slot, Slot]): BracketMatch {
+  return { id, slots, openings: [], result: null };
+}
+
+/**
+ * Build every match of a bracket up front. The field is padded with byes up
+ * to the next power of two, with the byes going to the best seeds. Matches are
+ * listed in an order where each one comes after the matches it depends on.
+ */
+export function createBracket(
+  format: BracketFormat,
+  seeds: string[],
+): BracketState {
+  if (seeds.length < 2) {
+    throw new Error(
+      `A bracket needs at least two players, got ${seeds.length}`,
+    );
+  }
+
+  const rounds = Math.ceil(Math.log2(seeds.length));
+  const size = 2 ** rounds;
+  const order = seedOrder(size);
+
+  const winners: BracketMatch[][] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    winners.push(
+      Array.from({ length: count }, (_, i) => {
+        const slots: [Slot, Slot] =
+          round === 1
+            ? [
+                { seed: order[2 * i] as number },
+                { seed: order[2 * i + 1] as number },
+              ]
+            : [
+                { winnerOf: `W${round - 1}-${2 * i + 1}` },
+                { winnerOf: `W${round - 1}-${2 * i + 2}` },
+              ];
+        return match(`W${round}-${i + 1}`, slots);
+      }),
+    );
+  }
+
+  const winnersFinal = `W${rounds}-1`;
+  if (format === "single") {
+    return { format, seeds, matches: winners.flat() };
+  }
+
+  // The losers bracket alternates between rounds where the survivors play
+  // each other and rounds where they meet the losers dropping down from the
+  // winners bracket.
+  const losers: BracketMatch[][] = [];
+  let previous: Slot[] = winners[0]?.map(({ id }) => ({ loserOf: id })) ?? [];
+  for (let round = 1; round <= 2 * (rounds - 1); round++) {
+    const dropRound = round % 2 === 0;
+    const drops = dropRound
+      ? (winners[round / 2]?.map(({ id }) => ({ loserOf: id })) ?? [])
+      : [];
+    const count = dropRound ? previous.length : previous.length / 2;
+
+    const matches = Array.from({ length: count }, (_, i) => {
+      const slots: [Slot, Slot] = dropRound
+        ? [previous[i] as Slot, drops[count - 1 - i] as Slot]
+        : [previous[2 * i] as Slot, previous[2 * i + 1] as Slot];
+      return match(`L${round}-${i + 1}`, slots);
+    });
+    losers.push(matches);
+    previous = matches.map(({ id }) => ({ winnerOf: id }));
+  }
+
+  const losersChampion: Slot =
+    losers.at(-1)?.[0] !== undefined
+      ? { winnerOf: (losers.at(-1)?.[0] as BracketMatch).id }
+      : { loserOf: winnersFinal };
+
+  return {
+    format,
+    seeds,
+    matches: [
+      ...winners.flat(),
+      ...losers.flat(),
+      match("GF", [{ winnerOf: winnersFinal }, losersChampion]),
+      { ...match("GF2", [{ winnerOf: "GF" }, { loserOf: "GF" }]), reset: true },
+    ],
+  };
+}
+
+/**
+ * Work out who plays in a slot. Returns undefined if the match feeding it
+ * hasn't been played yet, and null if the slot is a bye.
+ */
+export function resolveSlot(
+  state: BracketState,
+  slot: Slot,
+): string | null | undefined {
+  if ("seed" in slot) {
+    return state.seeds[slot.seed - 1] ?? null;
+  }
+
+  const source = state.matches.find(
+    ({ id }) => id === ("winnerOf" in slot ? slot.winnerOf : slot.loserOf),
+  );
+  if (!source?.result) {
+    return undefined;
+  }
+  return "winnerOf" in slot ? source.result.winner : source.result.loser;
+}
+
+/**
+ * Settle every match that doesn't need any games, i.e. byes and an unneeded
+ * grand final reset, and return the matches that are ready to be played.
+ */
+export function advanceBracket(
+  state: BracketState,
+): { match: BracketMatch; players: [string, string] }[] {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const bracketMatch of state.matches) {
+      if (bracketMatch.result) {
+        continue;
+      }
+
+      const [first, second] = bracketMatch.slots.map((slot) =>
+        resolveSlot(state, slot),
+      );
+      if (first === undefined || second === undefined) {
+        continue;
+      }
+
+      if (first === null || second === null) {
+        bracketMatch.result = {
+          winner: first ?? second ?? null,
+          loser: null,
+          decidedBy: "WALKOVER",
+        };
+        changed = true;
+      } else if (bracketMatch.reset) {
+        // The first grand final went to the winners bracket finalist
+        const grandFinal = state.matches.find(({ id }) => id === "GF");
+        const winnersFinalist = resolveSlot(
+          state,
+          grandFinal?.slots[0] as Slot,
+        );
+        if (first === winnersFinalist) {
+          bracketMatch.result = {
+            winner: first,
+            loser: second,
+            decidedBy: "SKIPPED",
+          };
+          changed = true;
+        }
+      }
+    }
+  }
+
+  return state.matches.flatMap((bracketMatch) => {
+    if (bracketMatch.result) {
+      return [];
+    }
+    const [first, second] = bracketMatch.slots.map((slot) =>
+      resolveSlot(state, slot),
+    );
+    return first && second
+      ? [{ match: bracketMatch, players: [first, second] as [string, string] }]
+      : [];
+  });
+}
+
+export function bracketChampion(state: BracketState): string | null {
+  return state.matches.at(-1)?.result?.winner ?? null;
+}
@@ -0,0 +1,262 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  BUILD_CONCURRENCY,
+  BUILD_LOG_DIRECTORY,
+  BUILD_MANIFEST_FILE,
+  BUILD_REPORT_FILE,
+  BUILD_TIMEOUT,
+  GIT_TIMEOUT,
+  REPOS_DIRECTORY,
+} from "./config";
+import { dockerImage } from "./docker-runtime";
+import { Result } from "./result";
+import type { Entry } from "./runtime";
+
+/**
+ * Exactly which code a bot was built from, so every game can be traced back
+ * to it.
+ */
+export type BuildProvenance = {
+  repo: string;
+  // The commit asked for in entries.json, if any
+  commit: string | null;
+  // The full SHA that was checked out and built
+  sha: string;
+  image: string;
+  // ID of the built image, e.g. "sha256:..."
+  imageDigest: string;
+  builtAt: string;
+};
+
+export type BuildManifest = Record<string, BuildProvenance>;
+
+export async function readBuildManifest(): Promise<BuildManifest> {
+  const file = Bun.file(BUILD_MANIFEST_FILE);
+  if (!(await file.exists())) {
+    return {};
+  }
+  return (await file.json()) as BuildManifest;
+}
+
+async function writeBuildManifest(manifest: BuildManifest) {
+  await Bun.file(BUILD_MANIFEST_FILE).write(JSON.stringify(manifest, null, 2));
+}
+
+class BuildTimeoutError extends Error {
+  constructor(step: string, timeoutMs: number) {
+    super(`${step} took longer than ${timeoutMs}ms`);
+    this.name = "BuildTimeoutError";
+  }
+}
+
+class GitError extends Error {
+  constructor(
+    args: string[],
+    exitCode: number,
+    public readonly stderr: string,
+  ) {
+    super(`git ${args.join(" ")} exited with code ${exitCode}`);
+    this.name = "GitError";
+  }
+}
+
+/**
+ * Run a git command that talks to the entry's remote. It's killed if it
+ * runs past GIT_TIMEOUT, e.g. when the remote stops responding.
+ */
+async function remoteGit(args: string[], cwd: string) {
+  const proc = Bun.spawn(["git", ...args], {
+    cwd,
+    stdout: "ignore",
+    stderr: "pipe",
+    timeout: GIT_TIMEOUT,
+  });
+  const [stderr, exitCode] = await Promise.all([
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  if (proc.signalCode) {
+    throw new BuildTimeoutError(`git ${args[0]}`, GIT_TIMEOUT);
+  }
+  if (exitCode !== 0) {
+    throw new GitError(args, exitCode, stderr);
+  }
+}
+
+/**
+ * Clone or update an entry's repo and check out its pinned commit, or the
+ * tip of the default branch if it doesn't have one. Returns the full SHA.
+ */
+async function checkoutEntry(name: string, repo: string, commit?: string) {
+  const repoDirectory = path.join(REPOS_DIRECTORY, name);
+  if (!(await fs.exists(repoDirectory))) {
+    console.log(`Downloading ${name}...`);
+    await remoteGit(["clone", repo, name], REPOS_DIRECTORY);
+    console.log(`Downloaded ${name}`);
+  } else {
+    console.log(`Updating ${name}...`);
+    await remoteGit(["fetch", "--tags", "origin"], repoDirectory);
+  }
+
+  const target = commit ?? "origin/HEAD";
+  const resolve = () =>
+    Bun.$`git rev-parse --verify ${`${target}^{commit}`}`
+      .cwd(repoDirectory)
+      .quiet()
+      .nothrow();
+  let resolved = await resolve();
+  if (resolved.exitCode !== 0 && commit) {
+    // Commits that aren't on any branch have to be fetched by SHA
+    await remoteGit(["fetch", "origin", commit], repoDirectory);
+    resolved = await resolve();
+  }
+  if (resolved.exitCode !== 0) {
+    throw new Error(`Commit ${target} not found in ${repo} for ${name}`);
+  }
+
+  const sha = resolved.text().trim();
+  await Bun.$`git checkout --force --detach ${sha}`.cwd(repoDirectory).quiet();
+  console.log(`Checked out ${name} at ${sha}`);
+  return sha;
+}
+
+export type BuildStatus = "BUILT" | "FAILED" | "TIMED_OUT";
+
+export type BuildReportEntry = {
+  name: string;
+  status: BuildStatus;
+  durationMs: number;
+  imageSizeBytes: number | null;
+  logPath: string;
+  error: string | null;
+};
+
+/**
+ * Run `docker build`, writing its output to the entry's log file. The build
+ * is killed if it runs past BUILD_TIMEOUT.
+ */
+async function dockerBuild(name: string, logPath: string) {
+  const proc = Bun.spawn(
+    ["docker", "build", "--progress=plain", "-t", dockerImage(name), "."],
+    {
+      cwd: path.join(REPOS_DIRECTORY, name),
+      stdout: "pipe",
+      stderr: "pipe",
+      timeout: BUILD_TIMEOUT,
+    },
+  );
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  await fs.appendFile(logPath, `${stdout}${stderr}`);
+
+  if (proc.signalCode) {
+    throw new BuildTimeoutError(`Building ${name}`, BUILD_TIMEOUT);
+  }
+  if (exitCode !== 0) {
+    throw new Error(`docker build exited with code ${exitCode}`);
+  }
+}
+
+async function buildEntry(
+  { name, repo, commit }: Entry,
+  logPath: string,
+): Promise<BuildProvenance> {
+  if (!repo) {
+    throw new Error(`${name} needs a repo to build a Docker image from`);
+  }
+
+  const sha = await checkoutEntry(name, repo, commit);
+  await fs.appendFile(logPath, `Checked out ${repo} at ${sha}\n`);
+
+  console.log(`Building image for ${name}...`);
+  await dockerBuild(name, logPath);
+  const imageDigest = (
+    await Bun.$`docker image inspect --format ${"{{.Id}}"} ${dockerImage(name)}`.text()
+  ).trim();
+  console.log(`Built image for ${name}`);
+
+  return {
+    repo,
+    commit: commit ?? null,
+    sha,
+    image: dockerImage(name),
+    imageDigest,
+    builtAt: new Date().toISOString(),
+  };
+}
+
+async function imageSize(name: string) {
+  const sizeResult = await Result.tryAsync(
+    async () =>
+      await Bun.$`docker image inspect --format ${"{{.Size}}"} ${dockerImage(name)}`.text(),
+  );
+  return sizeResult.ok ? Number(sizeResult.data.trim()) : null;
+}
+
+/**
+ * Build a Docker image for every entry that runs in Docker, at most
+ * BUILD_CONCURRENCY at a time, and record where each one came from in the
+ * build manifest. A failed build doesn't stop the others, and every entry's
+ * status goes in the build report along with the path of its build log.
+ */
+export async function downloadAndBuild(entries: Entry[]): Promise<{
+  manifest: BuildManifest;
+  report: BuildReportEntry[];
+}> {
+  await fs.mkdir(REPOS_DIRECTORY, { recursive: true });
+  await fs.mkdir(BUILD_LOG_DIRECTORY, { recursive: true });
+  const manifest = await readBuildManifest();
+  const report: BuildReportEntry[] = [];
+
+  const queue = entries.filter(
+    (entry) => (entry.runtime?.type ?? "docker") === "docker",
+  );
+  const worker = async () => {
+    for (let entry = queue.shift(); entry; entry = queue.shift()) {
+      const logPath = path.join(BUILD_LOG_DIRECTORY, `${entry.name}.log`);
+      await Bun.write(logPath, "");
+      const startTime = performance.now();
+
+      const buildResult = await Result.tryAsync(() =>
+        buildEntry(entry as Entry, logPath),
+      );
+      const durationMs = performance.now() - startTime;
+
+      if (buildResult.ok) {
+        manifest[entry.name] = buildResult.data;
+      } else {
+        console.error(
+          `Failed to build image for ${entry.name}: ${buildResult.error.message}`,
+        );
+        // Errors from git keep the command's output to themselves
+        const { stderr } = buildResult.error as { stderr?: Buffer | string };
+        await fs.appendFile(
+          logPath,
+          `\n${stderr?.toString() ?? ""}${buildResult.error.message}\n`,
+        );
+        delete manifest[entry.name];
+      }
+      report.push({
+        name: entry.name,
+        status: buildResult.ok
+          ? "BUILT"
+          : buildResult.error instanceof BuildTimeoutError
+            ? "TIMED_OUT"
+            : "FAILED",
+        durationMs: Math.round(durationMs),
+        imageSizeBytes: buildResult.ok ? await imageSize(entry.name) : null,
+        logPath,
+        error: buildResult.ok ? null : buildResult.error.message,
+      });
+    }
+  };
+  await Promise.all(Array.from({ length: BUILD_CONCURRENCY }, worker));
+
+  await writeBuildManifest(manifest);
+  await Bun.write(BUILD_REPORT_FILE, JSON.stringify(report, null, 2));
+  return { manifest, report };
+}
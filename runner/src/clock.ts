@@ -0,0 +1,25 @@
+export type TimeControl = {
+  baseMs: number;
+  incrementMs: number;
+};
+
+/**
+ * Parse a time control like "3+0.1", i.e. three minutes on each clock plus
+ * a 0.1 second increment after every move.
+ */
+export function parseTimeControl(value: string): TimeControl {
+  const match = value.match(/^(\d+(?:\.\d+)?)\+(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    throw new Error(
+      `Time control must look like "<minutes>+<increment seconds>", got "${value}"`,
+    );
+  }
+  return {
+    baseMs: Number.parseFloat(match[1] as string) * 60 * 1000,
+    incrementMs: Number.parseFloat(match[2] as string) * 1000,
+  };
+}
+
+export function formatTimeControl({ baseMs, incrementMs }: TimeControl) {
+  return `${baseMs / 60 / 1000}+${incrementMs / 1000}`;
+}
@@ -1,6 +1,29 @@
 import * as path from "node:path";
+import type { Tiebreak } from "./standings";
+
+export const TOURNAMENT_NAME = "Gleam Chess Tournament";
+// Tags this tournament's games in the results database, which can hold
+// several tournaments
+export const TOURNAMENT_ID = "gleam-chess-2025";
 
 export const DATA_DIRECTORY = path.join(__dirname, "../data");
+export const ENTRIES_FILE = path.join(DATA_DIRECTORY, "entries.json");
+// Bots' repos are cloned here, relative to where the runner is started
+export const REPOS_DIRECTORY = "repos";
+export const BUILD_MANIFEST_FILE = path.join(
+  DATA_DIRECTORY,
+  "build-manifest.json",
+);
+export const BUILD_REPORT_FILE = path.join(DATA_DIRECTORY, "build-report.json");
+export const BUILD_LOG_DIRECTORY = path.join(DATA_DIRECTORY, "build-logs");
+export const FINALS_PLAYERS_FILE = path.join(
+  DATA_DIRECTORY,
+  "finals-players.json",
+);
+export const THIRD_PLACE_PLAYERS_FILE = path.join(
+  DATA_DIRECTORY,
+  "third-place-players.json",
+);
 export const PGN_DIRECTORY = path.join(DATA_DIRECTORY, "silversuite");
 export const RESULTS_DIRECTORY = path.join(DATA_DIRECTORY, "results");
 export const ROUND_ROBIN_RESULTS_DIRECTORY = path.join(
@@ -11,14 +34,92 @@ export const THIRD_PLACE_RESULTS_DIRECTORY = path.join(
   RESULTS_DIRECTORY,
   "third-place",
 );
+export const SWISS_RESULTS_DIRECTORY = path.join(RESULTS_DIRECTORY, "swiss");
+export const SWISS_PAIRINGS_FILE = path.join(
+  DATA_DIRECTORY,
+  "swiss-pairings.json",
+);
+export const BRACKET_RESULTS_DIRECTORY = path.join(
+  RESULTS_DIRECTORY,
+  "bracket",
+);
+export const BRACKET_STATE_FILE = path.join(DATA_DIRECTORY, "bracket.json");
 export const FINALS_RESULTS_DIRECTORY = path.join(RESULTS_DIRECTORY, "finals");
+export const PGN_EXPORT_DIRECTORY = path.join(DATA_DIRECTORY, "pgn");
+export const REPORT_DIRECTORY = path.join(DATA_DIRECTORY, "report");
+export const FAILURE_LOG_FILE = path.join(DATA_DIRECTORY, "failures.jsonl");
 
+// How many Docker images are built at once, and how long each build can take
+export const BUILD_CONCURRENCY = 2;
+export const BUILD_TIMEOUT = 10 * 60 * 1000;
+// How long cloning or fetching an entry's repo can take
+export const GIT_TIMEOUT = 5 * 60 * 1000;
 export const MOVE_TIMEOUT = 5000;
+export const LIFECYCLE_TIMEOUT = 1000;
+export const UCI_DEFAULT_MOVETIME = 1000;
+// Bots are given ports from this range, one per running instance
+export const PORT_RANGE_START = 8000;
+export const PORT_RANGE_END = 9000;
+// Where the live games are served with --spectate, outside the bots' range
+export const SPECTATOR_PORT = 7000;
+// How long a bot's container has to start answering requests before the
+// game is abandoned as a start failure
+export const READY_TIMEOUT = 30000;
+export const READY_POLL_INTERVAL = 100;
+// A chess clock like "3+0.1" (minutes + increment seconds), which replaces
+// MOVE_TIMEOUT and MAX_TIMEOUTS_PER_GAME. Can be overridden with
+// --time-control.
+export const TIME_CONTROL: string | null = null;
+// How many games a bot can be in at once, unless its entry sets
+// maxConcurrentGames
+export const MAX_CONCURRENT_GAMES_PER_BOT = 2;
+// Games that fail to complete, e.g. because a container didn't start, are
+// retried after GAME_RETRY_BACKOFF, doubling after every attempt
+export const GAME_MAX_RETRIES = 2;
+export const GAME_RETRY_BACKOFF = 5000;
+// Bots are withdrawn from the tournament after this many infrastructure
+// failures, or never if null
+export const MAX_INFRASTRUCTURE_FAILURES: number | null = 3;
 export const MAX_ATTEMPTS_PER_TURN = 3;
+// Longest response body kept when a bot forfeits with an error response
+export const INVALID_RESPONSE_BODY_LIMIT = 1000;
 export const MAX_TIMEOUTS_PER_GAME = 15;
+// Adjudication ends long games early. Every rule is off by default, since
+// it changes how games can be won: only turn a rule on once the tournament
+// rules announce it. Set a rule's threshold to null to turn it off. Material
+// is counted in pawns (N and B 3, R 5, Q 9).
+// A draw once the game passes this move number with the material level
+// to within ADJUDICATE_DRAW_MAX_MATERIAL_DIFFERENCE, e.g. 100
+export const ADJUDICATE_DRAW_AFTER_MOVES: number | null = null;
+export const ADJUDICATE_DRAW_MAX_MATERIAL_DIFFERENCE = 1;
+// A win for a side that stays at least this far ahead on material for
+// ADJUDICATE_WIN_AFTER_PLIES moves in a row, counting both sides' moves,
+// e.g. 9
+export const ADJUDICATE_WIN_MATERIAL_LEAD: number | null = null;
+export const ADJUDICATE_WIN_AFTER_PLIES = 20;
+// A win for KQ or KR against a bare king
+export const ADJUDICATE_BASIC_ENDGAMES = false;
 export const ROUND_ROBIN_STARTING_POSITIONS = 11;
 export const NUM_FINALS_GAMES = 10;
+// Capped at the number of rounds the field can play without rematches
+export const SWISS_ROUNDS = 7;
+// Each starting position is played twice per match, once with each colour
+export const BRACKET_STARTING_POSITIONS_PER_MATCH = 2;
+export const BRACKET_MAX_TIEBREAKS = 5;
 
 export const POINTS_PER_WIN = 1;
 export const POINTS_PER_DRAW = 0.5;
 export const POINTS_PER_LOSS = 0;
+export const POINTS_PER_BYE = 1;
+export const TIEBREAKS: readonly Tiebreak[] = [
+  "SONNEBORN_BERGER",
+  "DIRECT_ENCOUNTER",
+  "WINS",
+  "BUCHHOLZ",
+  "BLACK_WINS",
+];
+
+export const RATING_BASE = 1500;
+export const RATING_PRIOR_DRAWS = 2;
+export const RATING_MAX_ITERATIONS = 10000;
+export const RATING_TOLERANCE = 1e-9;
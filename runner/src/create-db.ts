@@ -1,13 +1,24 @@
 import { Database } from "bun:sqlite";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import { RESULTS_DIRECTORY } from "./config";
+import { Chess } from "chess.js";
+import { RESULTS_DIRECTORY, TOURNAMENT_ID } from "./config";
 import type { GameOutcome } from "./game";
+import {
+  type GameResult,
+  getStageResults,
+  openingNumber,
+  STAGES,
+  type Stage,
+} from "./outcomes";
 
 const DB_PATH = path.join(RESULTS_DIRECTORY, "results.db");
 
-function createTables(db: Database) {
-  db.query(`
+// Each migration takes the database from the version at its index to the
+// next one. The version is kept in SQLite's user_version, so add new
+// migrations to the end and never edit one that has been released.
+const MIGRATIONS = [
+  `
 create table if not exists game (
   id integer primary key autoincrement,
   white_player text not null,
@@ -19,9 +30,7 @@ create table if not exists game (
   opponent_error text,
   duration_ms real not null
 );
-  `).run();
 
-  db.query(`
 create table if not exists move (
   id integer primary key autoincrement,
   game_id integer not null,
@@ -34,43 +43,135 @@ create table if not exists move (
   duration_ms real not null,
   foreign key (game_id) references game(id)
 );
-  `).run();
-}
+  `,
+  // Games used to be reimported from scratch on every run, so there's
+  // nothing to key them on. Drop them and import them again with the stage
+  // they were played in.
+  `
+drop table move;
+drop table game;
 
-async function getAllGameOutcomes() {
-  const outcomes: { outcome: GameOutcome; opening: number }[] = [];
+create table game (
+  id integer primary key autoincrement,
+  tournament text not null,
+  stage text not null,
+  -- Relative to the results directory, e.g. "round-robin/a-b-00.json"
+  result_file text not null unique,
+  result_modified_ms real not null,
+  white_player text not null,
+  black_player text not null,
+  opening integer not null,
+  outcome text not null,
+  outcome_reason text not null,
+  winner text,
+  opponent_error text,
+  duration_ms real not null,
+  time_control text,
+  start_fen text not null,
+  pgn text not null
+);
 
-  for (const dirent of await fs.readdir(RESULTS_DIRECTORY, {
-    recursive: true,
-    withFileTypes: true,
-  })) {
-    const file = dirent.name;
+create index game_stage on game (tournament, stage);
 
-    if (!file.endsWith(".json")) {
-      continue;
-    }
+create table move (
+  id integer primary key autoincrement,
+  game_id integer not null,
+  move_number integer not null,
+  colour text not null,
+  player text not null,
+  from_square text not null,
+  to_square text not null,
+  san text not null,
+  lan text not null,
+  fen_before text not null,
+  fen_after text not null,
+  duration_ms real not null,
+  clock_ms real,
+  foreign key (game_id) references game(id) on delete cascade,
+  unique (game_id, move_number)
+);
+  `,
+  // Result file paths are only unique within a tournament. SQLite can't
+  // change a table's constraints, so the game table is copied into a new one.
+  `
+create table game_new (
+  id integer primary key autoincrement,
+  tournament text not null,
+  stage text not null,
+  -- Relative to the results directory, e.g. "round-robin/a-b-00.json"
+  result_file text not null,
+  result_modified_ms real not null,
+  white_player text not null,
+  black_player text not null,
+  opening integer not null,
+  outcome text not null,
+  outcome_reason text not null,
+  winner text,
+  opponent_error text,
+  duration_ms real not null,
+  time_control text,
+  start_fen text not null,
+  pgn text not null,
+  unique (tournament, result_file)
+);
 
-    const fullPath = path.join(dirent.parentPath, file);
+insert into game_new select * from game;
+drop table game;
+alter table game_new rename to game;
 
-    const openingNumberString = file.match(/-(\d+)\./)?.[1];
-    if (!openingNumberString) {
-      throw new Error(`Invalid file name: ${file}`);
+create index game_stage on game (tournament, stage);
+  `,
+];
+
+function migrate(db: Database) {
+  const { user_version: version } = db.query("pragma user_version").get() as {
+    user_version: number;
+  };
+  if (version > MIGRATIONS.length) {
+    throw new Error(
+      `${DB_PATH} is at schema version ${version}, newer than this runner's ${MIGRATIONS.length}`,
+    );
+  }
+
+  for (const [index, migration] of MIGRATIONS.entries()) {
+    if (index < version) {
+      continue;
     }
-    const openingNumber = Number.parseInt(openingNumberString);
-    const outcome = (await Bun.file(fullPath).json()) as GameOutcome;
-    outcomes.push({ outcome, opening: openingNumber });
+    db.transaction(() => {
+      db.run(migration);
+      db.run(`pragma user_version = ${index + 1}`);
+    })();
+    console.log(`Migrated ${DB_PATH} to schema version ${index + 1}`);
   }
+}
 
-  return outcomes;
+/**
+ * The position the bots started from, after the opening moves.
+ */
+function startFen(outcome: GameOutcome) {
+  const firstMove = outcome.moves[0];
+  if (firstMove) {
+    return firstMove.before;
+  }
+  const chess = new Chess();
+  chess.loadPgn(outcome.pgn, { strict: false });
+  return chess.fen();
 }
 
 function saveToDb(
   db: Database,
-  { outcome, opening }: { outcome: GameOutcome; opening: number },
+  stage: Stage,
+  resultFile: string,
+  modifiedMs: number,
+  { filePath, outcome }: GameResult,
 ) {
-  const gameInsert = db
+  const gameUpsert = db
     .query(`
 insert into game (
+  tournament,
+  stage,
+  result_file,
+  result_modified_ms,
   white_player,
   black_player,
   opening,
@@ -78,9 +179,16 @@ insert into game (
   outcome_reason,
   winner,
   opponent_error,
-  duration_ms
+  duration_ms,
+  time_control,
+  start_fen,
+  pgn
 )
 values (
+  $tournament,
+  $stage,
+  $result_file,
+  $result_modified_ms,
   $white_player,
   $black_player,
   $opening,
@@ -88,27 +196,52 @@ values (
   $outcome_reason,
   $winner,
   $opponent_error,
-  $duration_ms
+  $duration_ms,
+  $time_control,
+  $start_fen,
+  $pgn
 )
+on conflict (tournament, result_file) do update set
+  stage = excluded.stage,
+  result_modified_ms = excluded.result_modified_ms,
+  white_player = excluded.white_player,
+  black_player = excluded.black_player,
+  opening = excluded.opening,
+  outcome = excluded.outcome,
+  outcome_reason = excluded.outcome_reason,
+  winner = excluded.winner,
+  opponent_error = excluded.opponent_error,
+  duration_ms = excluded.duration_ms,
+  time_control = excluded.time_control,
+  start_fen = excluded.start_fen,
+  pgn = excluded.pgn
 returning id
     `)
     .all({
+      tournament: TOURNAMENT_ID,
+      stage: stage.name,
+      result_file: resultFile,
+      result_modified_ms: modifiedMs,
       white_player: outcome.players.white,
       black_player: outcome.players.black,
-      opening,
+      opening: openingNumber(filePath),
       outcome: outcome.type,
       outcome_reason: outcome.reason,
       winner: outcome.type === "WIN" ? outcome.winner : null,
       opponent_error:
-        outcome.reason === "OPPONENT_EXCEEDED_MAX_ATTEMPTS"
+        "opponentErrors" in outcome
           ? (outcome.opponentErrors[outcome.opponentErrors.length - 1]?.type ??
             null)
           : null,
       duration_ms: outcome.durationMs,
+      time_control: outcome.timeControl ?? null,
+      start_fen: startFen(outcome),
+      pgn: outcome.pgn,
     });
 
-  const game = (gameInsert[0] as { id: number }).id;
+  const game = (gameUpsert[0] as { id: number }).id;
 
+  db.query("delete from move where game_id = $game_id").run({ game_id: game });
   for (const [idx, move] of outcome.moves.entries()) {
     db.query(`
 insert into move (
@@ -119,7 +252,11 @@ insert into move (
   from_square,
   to_square,
   san,
-  duration_ms
+  lan,
+  fen_before,
+  fen_after,
+  duration_ms,
+  clock_ms
 )
 values (
   $game_id,
@@ -129,7 +266,11 @@ values (
   $from_square,
   $to_square,
   $san,
-  $duration_ms
+  $lan,
+  $fen_before,
+  $fen_after,
+  $duration_ms,
+  $clock_ms
 )
     `).run({
       game_id: game,
@@ -140,24 +281,66 @@ values (
       from_square: move.from,
       to_square: move.to,
       san: move.san,
+      lan: move.lan,
+      fen_before: move.before,
+      fen_after: move.after,
       duration_ms: move.durationMs,
+      clock_ms: move.clockMs ?? null,
     });
   }
 }
 
+/**
+ * Bring this tournament's games in the database up to date with the result
+ * files. Only games whose file has changed since the last run are imported
+ * again, and games whose file is gone are removed. Other tournaments' games
+ * are left alone.
+ */
 async function main() {
-  const dbFile = Bun.file(DB_PATH);
-  if (await dbFile.exists()) {
-    await Bun.file(DB_PATH).unlink();
-  }
   const db = new Database(DB_PATH, { create: true, strict: true });
+  // Foreign keys are turned on after migrating, so that replacing a table
+  // doesn't cascade deletes to the rows that reference it
+  migrate(db);
+  db.run("pragma foreign_keys = on");
 
-  createTables(db);
-  const gameOutcomes = await getAllGameOutcomes();
+  const modified = new Map(
+    (
+      db
+        .query(
+          "select result_file, result_modified_ms from game where tournament = $tournament",
+        )
+        .all({ tournament: TOURNAMENT_ID }) as {
+        result_file: string;
+        result_modified_ms: number;
+      }[]
+    ).map((row) => [row.result_file, row.result_modified_ms]),
+  );
+  const seen = new Set<string>();
+  let imported = 0;
 
-  for (const outcome of gameOutcomes) {
-    saveToDb(db, outcome);
+  for (const stage of STAGES) {
+    for (const result of await getStageResults(stage)) {
+      const resultFile = path.relative(RESULTS_DIRECTORY, result.filePath);
+      const { mtimeMs } = await fs.stat(result.filePath);
+      seen.add(resultFile);
+      if (modified.get(resultFile) === mtimeMs) {
+        continue;
+      }
+      db.transaction(() => saveToDb(db, stage, resultFile, mtimeMs, result))();
+      imported++;
+    }
   }
+
+  const removed = [...modified.keys()].filter((file) => !seen.has(file));
+  for (const resultFile of removed) {
+    db.query(
+      "delete from game where tournament = $tournament and result_file = $result_file",
+    ).run({ tournament: TOURNAMENT_ID, result_file: resultFile });
+  }
+
+  console.log(
+    `Imported ${imported} games and removed ${removed.length} from ${DB_PATH}`,
+  );
 }
 
 await main();
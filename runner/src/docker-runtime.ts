@@ -0,0 +1,54 @@
+import { Result } from "./result";
+import type { BotRuntime, BotStatus } from "./runtime";
+
+export function dockerImage(name: string) {
+  return `chess-bot-2025:${name}`;
+}
+
+function dockerContainerName(name: string, port: number) {
+  return `${name}-${port}`;
+}
+
+export function dockerRuntime(name: string): BotRuntime {
+  return {
+    async start(port) {
+      const containerName = dockerContainerName(name, port);
+      console.log(`Starting ${dockerImage(name)} as ${containerName}...`);
+      // Containers aren't started with --rm so their state can still be
+      // inspected after a crash. Clear out any left over from an earlier run.
+      await Bun.$`docker rm -f ${containerName}`.quiet().nothrow();
+      await Bun.$`docker run -d --memory="512m" --cpus="2" --name ${containerName} -p ${{ raw: port.toString() }}:8000 ${dockerImage(name)}`.quiet();
+      console.log(`Started ${dockerImage(name)}`);
+
+      return {
+        port,
+
+        async stop() {
+          console.log(`Stopping ${dockerImage(name)} as ${containerName}...`);
+          await Bun.$`docker stop ${containerName}`.quiet().nothrow();
+          await Bun.$`docker rm -f ${containerName}`.quiet().nothrow();
+          console.log(`Stopped ${dockerImage(name)}`);
+        },
+
+        async status(): Promise<Result<BotStatus>> {
+          return Result.tryAsync(async () => {
+            const state =
+              (await Bun.$`docker inspect --format ${"{{json .State}}"} ${containerName}`
+                .quiet()
+                .json()) as {
+                Running: boolean;
+                OOMKilled: boolean;
+                ExitCode: number;
+              };
+            return {
+              running: state.Running,
+              oomKilled: state.OOMKilled,
+              exitCode: state.ExitCode,
+              signal: null,
+            };
+          });
+        },
+      };
+    },
+  };
+}
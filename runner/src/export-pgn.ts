@@ -0,0 +1,167 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Chess } from "chess.js";
+import { parseTimeControl } from "./clock";
+import {
+  BRACKET_RESULTS_DIRECTORY,
+  PGN_EXPORT_DIRECTORY,
+  SWISS_RESULTS_DIRECTORY,
+  TOURNAMENT_NAME,
+} from "./config";
+import type { GameOutcome } from "./game";
+import {
+  type GameResult,
+  getStageResults,
+  openingNumber,
+  STAGES,
+  type Stage,
+} from "./outcomes";
+import { readSwissState, type SwissState } from "./swiss";
+
+// The standard PGN termination values
+const TERMINATIONS: Record<GameOutcome["reason"], string> = {
+  CHECKMATE: "normal",
+  STALEMATE: "normal",
+  INSUFFICIENT_MATERIAL: "normal",
+  FIFTY_MOVES: "normal",
+  THREEFOLD_REPETITION: "normal",
+  OTHER: "normal",
+  OPPONENT_TIMEOUT: "time forfeit",
+  OPPONENT_FLAG_FALL: "time forfeit",
+  OPPONENT_EXCEEDED_MAX_ATTEMPTS: "rules infraction",
+  OPPONENT_INVALID_RESPONSE: "rules infraction",
+  ADJUDICATED_BALANCED_MATERIAL: "adjudication",
+  ADJUDICATED_MATERIAL_LEAD: "adjudication",
+  ADJUDICATED_BASIC_ENDGAME: "adjudication",
+};
+
+/**
+ * Elapsed move time as H:MM:SS.sss, for a `[%emt]` comment.
+ */
+function formatElapsed(ms: number) {
+  const totalSeconds = ms / 1000;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toFixed(3).padStart(6, "0");
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`;
+}
+
+function resultTag(outcome: GameOutcome) {
+  if (outcome.type === "DRAW") {
+    return "1/2-1/2";
+  }
+  return outcome.winner === outcome.players.white ? "1-0" : "0-1";
+}
+
+/**
+ * Work out the round of each game. Swiss games use the round they were
+ * paired in and bracket games the match they belong to. Otherwise each
+ * starting position is a round, in the order they were played.
+ */
+function rounds(
+  stage: Stage,
+  results: GameResult[],
+  swissState: SwissState,
+): string[] {
+  if (stage.directory === BRACKET_RESULTS_DIRECTORY) {
+    return results.map(({ filePath }) => path.basename(path.dirname(filePath)));
+  }
+
+  if (stage.directory === SWISS_RESULTS_DIRECTORY) {
+    return results.map(({ filePath, outcome }) => {
+      const round = swissState.rounds.find(
+        ({ opening, pairings }) =>
+          Number.parseInt(opening) === openingNumber(filePath) &&
+          pairings.some(
+            ({ white, black }) =>
+              white === outcome.players.white &&
+              black === outcome.players.black,
+          ),
+      );
+      return round ? String(round.round) : "?";
+    });
+  }
+
+  const openings = [
+    ...new Set(results.map(({ filePath }) => openingNumber(filePath))),
+  ].toSorted((a, b) => a - b);
+  return results.map(({ filePath }) =>
+    String(openings.indexOf(openingNumber(filePath)) + 1),
+  );
+}
+
+/**
+ * Rebuild a game from its saved PGN, which still has the headers of the
+ * starting position, with tournament headers and the time taken for every
+ * move the bots played.
+ */
+function exportGame(outcome: GameOutcome, event: string, round: string) {
+  const source = new Chess();
+  source.loadPgn(outcome.pgn, { strict: false });
+  const sourceHeaders = source.getHeaders();
+  const history = source.history({ verbose: true });
+  // The saved moves are the ones played after the opening
+  const openingLength = Math.max(0, history.length - outcome.moves.length);
+
+  const chess = history[0] ? new Chess(history[0].before) : new Chess();
+  chess.setHeader("Event", event);
+  chess.setHeader("Round", round);
+  chess.setHeader("White", outcome.players.white);
+  chess.setHeader("Black", outcome.players.black);
+  chess.setHeader("Result", resultTag(outcome));
+  // Silver Suite files name the opening in the Black tag
+  if (sourceHeaders.Black) {
+    chess.setHeader("Opening", sourceHeaders.Black);
+  }
+  if (sourceHeaders.ECO) {
+    chess.setHeader("ECO", sourceHeaders.ECO);
+  }
+  if (outcome.timeControl) {
+    const { baseMs, incrementMs } = parseTimeControl(outcome.timeControl);
+    chess.setHeader("TimeControl", `${baseMs / 1000}+${incrementMs / 1000}`);
+  }
+  chess.setHeader("Termination", TERMINATIONS[outcome.reason]);
+  chess.setHeader("TerminationReason", outcome.reason);
+
+  for (const [i, move] of history.entries()) {
+    chess.move({ from: move.from, to: move.to, promotion: move.promotion });
+    const durationMs = outcome.moves[i - openingLength]?.durationMs;
+    if (i >= openingLength && durationMs !== undefined) {
+      chess.setComment(`[%emt ${formatElapsed(durationMs)}]`);
+    }
+  }
+
+  return chess.pgn();
+}
+
+async function exportStage(stage: Stage, swissState: SwissState) {
+  const results = await getStageResults(stage);
+  if (results.length === 0) {
+    return;
+  }
+
+  const event = `${TOURNAMENT_NAME}: ${stage.label}`;
+  const stageRounds = rounds(stage, results, swissState);
+  const games = results
+    .map((result, i) => ({ ...result, round: stageRounds[i] as string }))
+    .toSorted(
+      (a, b) =>
+        a.round.localeCompare(b.round, undefined, { numeric: true }) ||
+        a.filePath.localeCompare(b.filePath),
+    )
+    .map(({ outcome, round }) => exportGame(outcome, event, round));
+
+  const filePath = path.join(PGN_EXPORT_DIRECTORY, `${stage.name}.pgn`);
+  await Bun.file(filePath).write(`${games.join("\n\n")}\n`);
+  console.log(`Exported ${games.length} games to ${filePath}`);
+}
+
+async function main() {
+  await fs.mkdir(PGN_EXPORT_DIRECTORY, { recursive: true });
+  const swissState = await readSwissState();
+  for (const stage of STAGES) {
+    await exportStage(stage, swissState);
+  }
+}
+
+await main();
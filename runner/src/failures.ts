@@ -0,0 +1,82 @@
+import * as fs from "node:fs/promises";
+import { FAILURE_LOG_FILE, MAX_INFRASTRUCTURE_FAILURES } from "./config";
+import type { Players } from "./game";
+
+export type FailureRecord = {
+  time: string;
+  players: Players;
+  // File name of the starting position in the PGN directory
+  opening: string;
+  attempt: number;
+  error: string;
+  // The bot at fault for infrastructure failures, e.g. a container that
+  // didn't start. Null when the failure can't be pinned on either bot.
+  bot: string | null;
+};
+
+// Logged when a bot is withdrawn outright, e.g. because its image didn't
+// build
+export type WithdrawalRecord = {
+  time: string;
+  withdrawn: string;
+  reason: string;
+};
+
+type LogRecord = FailureRecord | WithdrawalRecord;
+
+const infrastructureFailures = new Map<string, number>();
+const withdrawnBots = new Set<string>();
+
+function countFailure({ bot }: FailureRecord) {
+  if (bot) {
+    infrastructureFailures.set(bot, (infrastructureFailures.get(bot) ?? 0) + 1);
+  }
+}
+
+/**
+ * Count the infrastructure failures and withdrawals from earlier runs, so a
+ * withdrawn bot stays withdrawn when a stage is resumed. Remove a bot's lines
+ * from the log to reinstate it.
+ */
+export async function loadFailureLog() {
+  const file = Bun.file(FAILURE_LOG_FILE);
+  if (!(await file.exists())) {
+    return;
+  }
+  for (const line of (await file.text()).split("\n")) {
+    if (line.trim() !== "") {
+      const record = JSON.parse(line) as LogRecord;
+      if ("withdrawn" in record) {
+        withdrawnBots.add(record.withdrawn);
+      } else {
+        countFailure(record);
+      }
+    }
+  }
+}
+
+export async function logFailure(record: FailureRecord) {
+  await fs.appendFile(FAILURE_LOG_FILE, `${JSON.stringify(record)}\n`);
+  countFailure(record);
+}
+
+export async function withdraw(bot: string, reason: string) {
+  if (withdrawnBots.has(bot)) {
+    return;
+  }
+  const record: WithdrawalRecord = {
+    time: new Date().toISOString(),
+    withdrawn: bot,
+    reason,
+  };
+  await fs.appendFile(FAILURE_LOG_FILE, `${JSON.stringify(record)}\n`);
+  withdrawnBots.add(bot);
+}
+
+export function isWithdrawn(bot: string) {
+  return (
+    withdrawnBots.has(bot) ||
+    (MAX_INFRASTRUCTURE_FAILURES !== null &&
+      (infrastructureFailures.get(bot) ?? 0) >= MAX_INFRASTRUCTURE_FAILURES)
+  );
+}
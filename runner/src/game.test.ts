@@ -0,0 +1,278 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { Chess } from "chess.js";
+import { ADJUDICATION_RULES, type AdjudicationRules } from "./adjudication";
+import {
+  type Bots,
+  type GameOutcome,
+  gameLoop,
+  roundRobinJobs,
+  scheduleGames,
+  setupRuntimes,
+} from "./game";
+import { parseOutcome } from "./outcome-schema";
+import { getGameOutcomes } from "./outcomes";
+import { allocatePort, releasePort } from "./ports";
+import { referenceRuntime } from "./reference-bots";
+import { Result } from "./result";
+import type { BotInstance, ReferenceRuntimeConfig } from "./runtime";
+import { spectateGame } from "./spectator";
+import { getRoundRobinPgns } from "./stage-games";
+import { calculateStandings } from "./standings";
+
+const PLAYERS = { white: "white-bot", black: "black-bot" };
+// Games are played out to the end without adjudication, which can take a
+// while between weak bots
+const GAME_TIMEOUT_MS = 60_000;
+
+let tempDirectory: string;
+let openingPath: string;
+const running: BotInstance[] = [];
+
+beforeAll(async () => {
+  tempDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "runner-test-"));
+  const [firstOpening] = await getRoundRobinPgns();
+  openingPath = firstOpening as string;
+});
+
+afterAll(async () => {
+  await fs.rm(tempDirectory, { recursive: true });
+});
+
+afterEach(async () => {
+  for (const bot of running.splice(0)) {
+    await bot.stop();
+    releasePort(bot.port);
+  }
+});
+
+async function referenceBot(config: Omit<ReferenceRuntimeConfig, "type">) {
+  const bot = await referenceRuntime(config.bot, {
+    type: "reference",
+    ...config,
+  }).start(allocatePort());
+  running.push(bot);
+  return bot;
+}
+
+/**
+ * A bot that answers every move request the same way.
+ */
+function fakeBot(respond: () => Response | Promise<Response>): BotInstance {
+  const port = allocatePort();
+  const server = Bun.serve({
+    port,
+    fetch: (request) =>
+      new URL(request.url).pathname === "/move" ? respond() : new Response(),
+  });
+  const bot: BotInstance = {
+    port,
+    async stop() {
+      await server.stop(true);
+    },
+    async status() {
+      return Result.ok({
+        running: true,
+        oomKilled: false,
+        exitCode: null,
+        signal: null,
+      });
+    },
+  };
+  running.push(bot);
+  return bot;
+}
+
+async function writePgn(fen: string) {
+  const pgnPath = path.join(tempDirectory, `${Bun.hash(fen)}.pgn`);
+  await Bun.write(pgnPath, `[SetUp "1"]\n[FEN "${fen}"]\n\n*\n`);
+  return pgnPath;
+}
+
+async function play(
+  bots: Bots,
+  pgnPath = openingPath,
+  timeControl: Parameters<typeof gameLoop>[4] = null,
+  adjudicationRules?: AdjudicationRules,
+): Promise<GameOutcome> {
+  const gameResult = await gameLoop(
+    PLAYERS,
+    bots,
+    pgnPath,
+    spectateGame(PLAYERS),
+    timeControl,
+    adjudicationRules,
+  );
+  if (!gameResult.ok) {
+    throw gameResult.error;
+  }
+  return gameResult.data;
+}
+
+/**
+ * The saved PGN should end in the same position as the saved moves.
+ */
+function expectConsistent(outcome: GameOutcome) {
+  expect(parseOutcome(outcome, "test.json").ok).toBe(true);
+  const chess = new Chess();
+  chess.loadPgn(outcome.pgn, { strict: false });
+  const lastMove = outcome.moves.at(-1);
+  if (lastMove) {
+    expect(chess.fen()).toBe(lastMove.after);
+  }
+}
+
+describe("gameLoop", () => {
+  test(
+    "plays a game between reference bots",
+    async () => {
+      const outcome = await play({
+        white: await referenceBot({ bot: "minimax", depth: 1, seed: 1 }),
+        black: await referenceBot({ bot: "greedy", seed: 2 }),
+      });
+      expect(outcome.moves.length).toBeGreaterThan(0);
+      expectConsistent(outcome);
+    },
+    GAME_TIMEOUT_MS,
+  );
+
+  test("forfeits a bot that only sends illegal moves", async () => {
+    const outcome = await play({
+      white: fakeBot(() => new Response("e9e9")),
+      black: await referenceBot({ bot: "random", seed: 1 }),
+    });
+    expect(outcome).toMatchObject({
+      type: "WIN",
+      winner: PLAYERS.black,
+      reason: "OPPONENT_EXCEEDED_MAX_ATTEMPTS",
+      moves: [],
+    });
+    expectConsistent(outcome);
+  });
+
+  test("forfeits a bot that answers with an error", async () => {
+    const outcome = await play({
+      white: fakeBot(() => new Response("oops", { status: 500 })),
+      black: await referenceBot({ bot: "random", seed: 1 }),
+    });
+    expect(outcome).toMatchObject({
+      type: "WIN",
+      winner: PLAYERS.black,
+      reason: "OPPONENT_INVALID_RESPONSE",
+    });
+  });
+
+  test("loses on time when a bot doesn't answer before its flag falls", async () => {
+    const outcome = await play(
+      {
+        white: fakeBot(async () => {
+          await Bun.sleep(1000);
+          return new Response("e2e4");
+        }),
+        black: await referenceBot({ bot: "random", seed: 1 }),
+      },
+      openingPath,
+      { baseMs: 200, incrementMs: 0 },
+    );
+    expect(outcome).toMatchObject({
+      type: "WIN",
+      winner: PLAYERS.black,
+      reason: "OPPONENT_FLAG_FALL",
+      moves: [],
+    });
+    expectConsistent(outcome);
+  });
+
+  test("adjudicates a won basic endgame", async () => {
+    const outcome = await play(
+      {
+        white: await referenceBot({ bot: "minimax", depth: 2, seed: 1 }),
+        black: await referenceBot({ bot: "random", seed: 1 }),
+      },
+      await writePgn("4k3/8/8/8/8/8/8/Q3K3 w - - 0 1"),
+      null,
+      { ...ADJUDICATION_RULES, basicEndgames: true },
+    );
+    expect(outcome).toMatchObject({
+      type: "WIN",
+      winner: PLAYERS.white,
+      reason: "ADJUDICATED_BASIC_ENDGAME",
+    });
+    expect(outcome.moves).toHaveLength(1);
+    expectConsistent(outcome);
+  });
+});
+
+describe("round robin stage", () => {
+  test(
+    "plays and saves every game, and resumes without replaying",
+    async () => {
+      const saveDir = path.join(tempDirectory, "round-robin");
+      await fs.mkdir(saveDir);
+      const entries = [
+        { name: "Random", bot: "random" },
+        { name: "Greedy", bot: "greedy" },
+        { name: "Minimax", bot: "minimax", depth: 1 },
+      ] as const;
+      setupRuntimes(
+        entries.map(({ name, ...config }, seed) => ({
+          name,
+          runtime: { type: "reference", ...config, seed },
+        })),
+      );
+      const jobs = roundRobinJobs(
+        entries.map(({ name }) => name),
+        [openingPath],
+        saveDir,
+      );
+      expect(jobs).toHaveLength(6);
+
+      expect((await scheduleGames(jobs)).ok).toBe(true);
+      const outcomes = await getGameOutcomes(saveDir);
+      expect(outcomes).toHaveLength(6);
+      for (const outcome of outcomes) {
+        expectConsistent(outcome);
+      }
+
+      const standings = calculateStandings(outcomes);
+      expect(standings.map(({ bot }) => bot).toSorted()).toEqual([
+        "Greedy",
+        "Minimax",
+        "Random",
+      ]);
+      // Every game hands out one point between its two players
+      expect(standings.reduce((total, { points }) => total + points, 0)).toBe(
+        6,
+      );
+
+      const modifiedTimes = async () =>
+        Promise.all(
+          (await fs.readdir(saveDir)).map(
+            async (file) => (await fs.stat(path.join(saveDir, file))).mtimeMs,
+          ),
+        );
+      const before = await modifiedTimes();
+      expect((await scheduleGames(jobs)).ok).toBe(true);
+      expect(await modifiedTimes()).toEqual(before);
+
+      // A result file cut short isn't counted as played
+      const [brokenFile] = await fs.readdir(saveDir);
+      await Bun.write(path.join(saveDir, brokenFile as string), "{");
+      const rescheduled = await scheduleGames(jobs);
+      expect(rescheduled.ok).toBe(false);
+      expect(rescheduled.ok || rescheduled.error.message).toContain(
+        "1 games failed",
+      );
+    },
+    GAME_TIMEOUT_MS,
+  );
+});
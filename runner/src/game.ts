@@ -1,198 +1,404 @@
 import * as fs from "node:fs/promises";
 import * as os from "node:os";
 import * as path from "node:path";
-import { Chess, type Move as ChessJsMove, type Color } from "chess.js";
-import entries from "../data/entries.json" with { type: "json" };
-import finalsPlayers from "../data/finals-players.json" with { type: "json" };
-import thirdPlacePlayers from "../data/third-place-players.json" with {
-  type: "json",
-};
+import { parseArgs } from "node:util";
+import { Chess, type Move as ChessJsMove } from "chess.js";
+import {
+  ADJUDICATION_RULES,
+  type AdjudicationRules,
+  createAdjudicator,
+} from "./adjudication";
+import {
+  advanceBracket,
+  type BracketFormat,
+  type BracketMatch,
+  type BracketState,
+  bracketChampion,
+  createBracket,
+  parseBracketFormat,
+  parseBracketPlayers,
+  readBracketState,
+  readSeeds,
+  writeBracketState,
+} from "./bracket";
 import {
+  type BuildManifest,
+  type BuildProvenance,
+  downloadAndBuild,
+} from "./build";
+import { formatTimeControl, parseTimeControl, type TimeControl } from "./clock";
+import {
+  BRACKET_MAX_TIEBREAKS,
+  BRACKET_RESULTS_DIRECTORY,
+  BRACKET_STARTING_POSITIONS_PER_MATCH,
+  DATA_DIRECTORY,
+  ENTRIES_FILE,
+  FAILURE_LOG_FILE,
+  FINALS_PLAYERS_FILE,
   FINALS_RESULTS_DIRECTORY,
+  GAME_MAX_RETRIES,
+  GAME_RETRY_BACKOFF,
+  INVALID_RESPONSE_BODY_LIMIT,
+  LIFECYCLE_TIMEOUT,
   MAX_ATTEMPTS_PER_TURN,
+  MAX_CONCURRENT_GAMES_PER_BOT,
+  MAX_INFRASTRUCTURE_FAILURES,
   MAX_TIMEOUTS_PER_GAME,
   MOVE_TIMEOUT,
-  NUM_FINALS_GAMES,
   PGN_DIRECTORY,
+  READY_POLL_INTERVAL,
+  READY_TIMEOUT,
   RESULTS_DIRECTORY,
   ROUND_ROBIN_RESULTS_DIRECTORY,
   ROUND_ROBIN_STARTING_POSITIONS,
+  SPECTATOR_PORT,
+  SWISS_RESULTS_DIRECTORY,
+  SWISS_ROUNDS,
+  THIRD_PLACE_PLAYERS_FILE,
   THIRD_PLACE_RESULTS_DIRECTORY,
+  TIME_CONTROL,
 } from "./config";
+import { isWithdrawn, loadFailureLog, logFailure, withdraw } from "./failures";
+import {
+  InvalidResultFileError,
+  OUTCOME_SCHEMA_VERSION,
+  readOutcome,
+} from "./outcome-schema";
+import { getGameOutcomes } from "./outcomes";
+import { colourToPlayer } from "./players";
+import { allocatePort, releasePort } from "./ports";
 import { Result } from "./result";
-
-const PORTS: Record<string, number> = {};
-
-type Player = "white" | "black";
-type Players = Record<Player, string>;
-
-function colourToPlayer(colour: Color): Player {
-  return colour === "w" ? "white" : "black";
+import {
+  type BotInstance,
+  type BotRuntime,
+  createRuntime,
+  type Entry,
+} from "./runtime";
+import { type GameJob, runGames } from "./scheduler";
+import {
+  type SpectatedGame,
+  spectateGame,
+  startSpectatorServer,
+  stopSpectatorServer,
+} from "./spectator";
+import {
+  getFinalsGames,
+  getRoundRobinPgns,
+  getThirdPlaceGames,
+  listPgnFiles,
+  permutations,
+  readStagePlayers,
+  resultFileName,
+  writeStagePlayers,
+} from "./stage-games";
+import {
+  calculatePoints,
+  calculateStandings,
+  type Standing,
+} from "./standings";
+import {
+  maxSwissRounds,
+  pairSwissRound,
+  readSwissState,
+  swissByes,
+  writeSwissState,
+} from "./swiss";
+
+// Loaded from ENTRIES_FILE when the runner starts
+let entries: Entry[] = [];
+
+const RUNTIMES: Record<string, BotRuntime> = {};
+let BUILD_MANIFEST: BuildManifest = {};
+// Every bot instance that hasn't been stopped yet, so they can all be
+// cleaned up if the runner is interrupted
+const RUNNING_BOTS = new Set<BotInstance>();
+// Bots that are still starting up, which are stopped once they're running
+const STARTING_BOTS = new Set<Promise<Result<BotInstance, BotStartError>>>();
+// Set once the runner has been interrupted, so no more bots are started
+let stopping = false;
+
+// When set, each side plays on a chess clock instead of a fixed per-move
+// timeout
+let timeControl: TimeControl | null = TIME_CONTROL
+  ? parseTimeControl(TIME_CONTROL)
+  : null;
+
+export type Player = "white" | "black";
+export type Players = Record<Player, string>;
+// The running instance of each player's bot for a single game
+export type Bots = Record<Player, BotInstance>;
+
+function botUrl(bot: BotInstance, endpoint: string) {
+  return `http://localhost:${bot.port}/${endpoint}`;
 }
 
-function dockerImage(name: string) {
-  return `chess-bot-2025:${name}`;
+function runtime(name: string) {
+  const botRuntime = RUNTIMES[name];
+  if (!botRuntime) {
+    throw new Error(`No runtime set up for ${name}`);
+  }
+  return botRuntime;
 }
 
-function dockerContainerName(name: string, player: Player) {
-  return `${name}-${player}`;
+async function launchBot(
+  name: string,
+  player: Player,
+): Promise<Result<BotInstance, BotStartError>> {
+  const port = allocatePort();
+  const startResult = await Result.tryAsync(() => runtime(name).start(port));
+  if (!startResult.ok) {
+    releasePort(port);
+    return Result.error(
+      new BotStartError(
+        name,
+        player,
+        `could not be started: ${startResult.error.message}`,
+      ),
+    );
+  }
+  RUNNING_BOTS.add(startResult.data);
+  return startResult;
 }
 
-async function dockerStart(name: string, player: Player) {
-  const containerName = dockerContainerName(name, player);
-  console.log(`Starting ${dockerImage(name)} as ${containerName}...`);
-  await Bun.$`docker run -d --memory="512m" --cpus="2" --rm --name ${containerName} -p ${{ raw: PORTS[name]?.toString() ?? "" }}:8000 ${dockerImage(name)}`.quiet();
-  console.log(`Started ${dockerImage(name)}`);
+async function startBot(
+  name: string,
+  player: Player,
+): Promise<Result<BotInstance, BotStartError>> {
+  if (stopping) {
+    return Result.error(
+      new BotStartError(
+        name,
+        player,
+        "was not started, the runner is stopping",
+      ),
+    );
+  }
+  const starting = launchBot(name, player);
+  STARTING_BOTS.add(starting);
+  const startResult = await starting;
+  STARTING_BOTS.delete(starting);
+  return startResult;
 }
 
-async function dockerStop(name: string, player: Player) {
-  const containerName = dockerContainerName(name, player);
-  console.log(`Stopping ${dockerImage(name)} as ${containerName}...`);
-  await Bun.$`docker stop ${containerName}`.quiet().nothrow();
-  console.log(`Stopped ${dockerImage(name)}`);
+async function stopBot(bot: BotInstance) {
+  const stopResult = await Result.tryAsync(() => bot.stop());
+  if (!stopResult.ok) {
+    console.error(
+      `Failed to stop bot on port ${bot.port}: ${stopResult.error.message}`,
+    );
+  }
+  RUNNING_BOTS.delete(bot);
+  releasePort(bot.port);
 }
 
-async function dockerStartAll(players: Players) {
-  await Promise.all(
-    Object.entries(players).map(async ([player, name]) => {
-      await dockerStart(name, player as Player);
-    }),
-  );
+async function startAll(
+  players: Players,
+): Promise<Result<Bots, BotStartError>> {
+  const [white, black] = await Promise.all([
+    startBot(players.white, "white"),
+    startBot(players.black, "black"),
+  ]);
+  if (!white.ok || !black.ok) {
+    // Don't leave the other side running
+    await Promise.all(
+      [white, black].flatMap((result) =>
+        result.ok ? [stopBot(result.data)] : [],
+      ),
+    );
+    return white.ok ? (black as Result<never, BotStartError>) : white;
+  }
+  return Result.ok({ white: white.data, black: black.data });
 }
 
-async function dockerStopAll(players: Players) {
-  await Promise.all(
-    Object.entries(players).map(async ([player, name]) => {
-      await dockerStop(name, player as Player);
-    }),
-  );
+async function stopAll(bots: Bots) {
+  await Promise.all(Object.values(bots).map(stopBot));
 }
 
-async function downloadAndBuild() {
-  await fs.mkdir("repos", { recursive: true });
-  await Promise.all(
-    entries.map(async (entry) => {
-      const { name, repo } = entry;
-
-      if (!(await fs.exists(path.join("repos", name)))) {
-        console.log(`Downloading ${name}...`);
-        await Bun.$`git clone ${repo} ${name}`.cwd("repos").quiet();
-        console.log(`Downloaded ${name}`);
-      }
-
-      console.log(`Building image for ${name}...`);
-      try {
-        await Bun.$`docker build -t ${dockerImage(name)} .`
-          .cwd(path.join("repos", name))
-          .quiet();
-      } catch (error) {
-        console.error(`Failed to build image for ${name}:`, error);
-        throw error;
+// Exit codes for being interrupted by each signal, 128 plus its number
+const SIGNAL_EXIT_CODES = { SIGINT: 130, SIGTERM: 143 } as const;
+
+/**
+ * Stop every running bot before exiting on Ctrl-C, so no containers are left
+ * behind. Bots that are still starting are stopped once they're up.
+ */
+function stopBotsOnSignal() {
+  for (const [signal, exitCode] of Object.entries(SIGNAL_EXIT_CODES)) {
+    process.once(signal, async () => {
+      stopping = true;
+      console.log(
+        `\nReceived ${signal}, stopping ${RUNNING_BOTS.size + STARTING_BOTS.size} bots...`,
+      );
+      while (RUNNING_BOTS.size > 0 || STARTING_BOTS.size > 0) {
+        await Promise.all(STARTING_BOTS);
+        await Promise.all([...RUNNING_BOTS].map(stopBot));
       }
-      console.log(`Built image for ${name}`);
-    }),
-  );
-}
-
-function permutations(array: string[]): [string, string][] {
-  return array.reduce(
-    (acc, v, i) =>
-      acc.concat(array.slice(i + 1).map((w) => [v, w] as [string, string])),
-    [] as [string, string][],
-  );
+      process.exit(exitCode);
+    });
+  }
 }
 
-async function listPgnFiles() {
-  const files = await fs.readdir(PGN_DIRECTORY);
-  return files.toSorted().map((file) => path.join(PGN_DIRECTORY, file));
+export type MoveError =
+  | { type: "TIMEOUT" }
+  | { type: "INVALID_MOVE"; move: string }
+  // A non-2xx response, which forfeits the game straight away
+  | { type: "INVALID_RESPONSE"; status: number; body: string }
+  | { type: "OUT_OF_MEMORY"; exitCode?: number }
+  | { type: "CRASHED"; exitCode: number | null; signal?: string }
+  | { type: "CONNECTION_REFUSED" }
+  | { type: "CONNECTION_RESET" }
+  | { type: "NETWORK_ERROR"; message: string };
+
+/**
+ * How the bot stopped, if it isn't running any more.
+ */
+async function crashError(bot: BotInstance): Promise<MoveError | null> {
+  const stateResult = await bot.status();
+  if (!stateResult.ok || stateResult.data.running) {
+    return null;
+  }
+  const { oomKilled, exitCode, signal } = stateResult.data;
+  if (oomKilled) {
+    return {
+      type: "OUT_OF_MEMORY",
+      ...(exitCode !== null ? { exitCode } : {}),
+    };
+  }
+  return { type: "CRASHED", exitCode, ...(signal ? { signal } : {}) };
 }
 
-async function getRoundRobinPgns() {
-  return (await listPgnFiles()).slice(0, ROUND_ROBIN_STARTING_POSITIONS);
-}
+/**
+ * Work out why a request to a bot failed. The bot's state takes priority
+ * over the error itself, since a bot that has died will also refuse or drop
+ * connections.
+ */
+async function classifyRequestError(
+  error: Error,
+  bot: BotInstance,
+): Promise<MoveError> {
+  if (error.name === "TimeoutError" || error.name === "AbortError") {
+    return { type: "TIMEOUT" };
+  }
 
-async function getThirdPlaceGames() {
-  const files = await listPgnFiles();
-  return files.slice(
-    files.length - 2 * NUM_FINALS_GAMES,
-    files.length - NUM_FINALS_GAMES,
-  );
-}
+  const crash = await crashError(bot);
+  if (crash) {
+    return crash;
+  }
 
-async function getFinalsGames() {
-  const files = await listPgnFiles();
-  return files.slice(files.length - NUM_FINALS_GAMES);
+  const code = (error as Error & { code?: string }).code;
+  if (code === "ECONNREFUSED" || code === "ConnectionRefused") {
+    return { type: "CONNECTION_REFUSED" };
+  }
+  if (code === "ECONNRESET" || code === "ConnectionClosed") {
+    return { type: "CONNECTION_RESET" };
+  }
+  return { type: "NETWORK_ERROR", message: error.message };
 }
 
-type InvalidResponseError = {
-  type: "INVALID_RESPONSE";
-  message: string;
-  status: number;
-};
-
-type MoveError =
-  | { type: "TIMEOUT" }
-  | { type: "INVALID_MOVE"; move: string }
-  | { type: "OUT_OF_MEMORY" };
-
 type MoveResponse = {
   move: Move | null;
   player: Player;
   errors: MoveError[];
+  // Time spent on the whole turn, across every attempt
+  turnDurationMs: number;
 };
 
 interface Move extends ChessJsMove {
   durationMs: number;
+  // Time left on the mover's clock after the move, including the increment
+  clockMs?: number;
 }
 
+type Clocks = Record<Player, number>;
+
 async function makeMove(
   chess: Chess,
-  players: Players,
-): Promise<Result<MoveResponse, InvalidResponseError>> {
+  bots: Bots,
+  timeControl: TimeControl | null,
+  clocks: Clocks | null,
+): Promise<MoveResponse> {
   const player = colourToPlayer(chess.turn());
   const fen = chess.fen();
+  // The opening is loaded as moves, so the history covers the whole game
+  const history = chess.history({ verbose: true });
+  const startFen = history[0]?.before ?? fen;
+  const moves = history.map((move) => move.lan);
 
   let attempt = 0;
   const failedMoves: string[] = [];
   const errors: MoveError[] = [];
+  const turnStartTime = performance.now();
+  const clockRemaining = () =>
+    (clocks?.[player] ?? 0) - (performance.now() - turnStartTime);
 
   while (attempt < MAX_ATTEMPTS_PER_TURN) {
+    if (clocks && clockRemaining() <= 0) {
+      break;
+    }
+
     const startTime = performance.now();
     const responseResult = await Result.tryAsync(
       async () =>
-        await fetch(`http://localhost:${PORTS[players[player]]}/move`, {
+        await fetch(botUrl(bots[player], "move"), {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             fen,
             turn: player,
             failed_moves: failedMoves,
+            start_fen: startFen,
+            moves,
+            ...(clocks && timeControl
+              ? {
+                  white_time_ms: Math.round(
+                    player === "white" ? clockRemaining() : clocks.white,
+                  ),
+                  black_time_ms: Math.round(
+                    player === "black" ? clockRemaining() : clocks.black,
+                  ),
+                  increment_ms: timeControl.incrementMs,
+                }
+              : {}),
           }),
-          signal: AbortSignal.timeout(MOVE_TIMEOUT),
+          signal: AbortSignal.timeout(
+            clocks ? Math.max(clockRemaining(), 1) : MOVE_TIMEOUT,
+          ),
         }),
     );
     const durationMs = performance.now() - startTime;
 
     if (!responseResult.ok) {
-      if (responseResult.error.name === "DOMException") {
-        errors.push({ type: "TIMEOUT" });
-      } else {
-        errors.push({ type: "OUT_OF_MEMORY" });
-      }
+      errors.push(
+        await classifyRequestError(responseResult.error, bots[player]),
+      );
       attempt++;
       continue;
     }
 
     const response = responseResult.data;
     if (!response.ok) {
-      return Result.error({
+      // A bot can answer with an error as it dies, e.g. the adapter for a UCI
+      // engine that crashed mid-search
+      const crash = await crashError(bots[player]);
+      if (crash) {
+        errors.push(crash);
+        attempt++;
+        continue;
+      }
+      errors.push({
         type: "INVALID_RESPONSE",
-        message: await response.text(),
         status: response.status,
+        body: (await response.text()).slice(0, INVALID_RESPONSE_BODY_LIMIT),
       });
+      break;
     }
     const move = await response.text();
 
+    // The move arrived, but not before the flag fell
+    if (clocks && clockRemaining() <= 0) {
+      errors.push({ type: "TIMEOUT" });
+      break;
+    }
+
     const moveResult = Result.try(() => chess.move(move, { strict: false }));
     if (!moveResult.ok) {
       errors.push({
@@ -204,24 +410,195 @@ async function makeMove(
       continue;
     }
 
-    return Result.ok({
+    return {
       player,
       move: {
         ...moveResult.data,
         durationMs,
       } as Move,
       errors,
+      turnDurationMs: performance.now() - turnStartTime,
+    };
+  }
+
+  return {
+    player,
+    move: null,
+    errors,
+    turnDurationMs: performance.now() - turnStartTime,
+  };
+}
+
+export class BotStartError extends Error {
+  constructor(
+    public readonly bot: string,
+    public readonly player: Player,
+    reason: string,
+  ) {
+    super(`Start failure: ${bot} as ${player} ${reason}`);
+    this.name = "BotStartError";
+  }
+}
+
+/**
+ * Poll a bot until its server answers. Any HTTP response counts, since bots
+ * don't have to implement anything other than /move.
+ */
+async function waitUntilReady(
+  bot: BotInstance,
+  name: string,
+  player: Player,
+): Promise<Result<null, BotStartError>> {
+  const startTime = performance.now();
+  while (performance.now() - startTime < READY_TIMEOUT) {
+    const responseResult = await Result.tryAsync(
+      async () =>
+        await fetch(botUrl(bot, ""), {
+          signal: AbortSignal.timeout(READY_POLL_INTERVAL * 10),
+        }),
+    );
+    if (responseResult.ok) {
+      return Result.ok(null);
+    }
+    await new Promise((resolve) => setTimeout(resolve, READY_POLL_INTERVAL));
+  }
+  return Result.error(
+    new BotStartError(
+      name,
+      player,
+      `did not respond within ${READY_TIMEOUT}ms`,
+    ),
+  );
+}
+
+async function waitUntilAllReady(
+  players: Players,
+  bots: Bots,
+): Promise<Result<null, BotStartError>> {
+  const results = await Promise.all(
+    (Object.entries(players) as [Player, string][]).map(([player, name]) =>
+      waitUntilReady(bots[player], name, player),
+    ),
+  );
+  return results.find((result) => !result.ok) ?? Result.ok(null);
+}
+
+export type BotInfo = {
+  name?: string;
+  version?: string;
+  author?: string;
+  capabilities?: string[];
+};
+
+/**
+ * Ask a bot for its metadata. The endpoint is optional, so anything other
+ * than a JSON object is treated as the bot not supporting it.
+ */
+async function fetchBotInfo(bot: BotInstance): Promise<BotInfo | null> {
+  const responseResult = await Result.tryAsync(async () => {
+    const response = await fetch(botUrl(bot, "info"), {
+      signal: AbortSignal.timeout(LIFECYCLE_TIMEOUT),
     });
+    return response.ok ? ((await response.json()) as unknown) : null;
+  });
+  if (
+    !responseResult.ok ||
+    typeof responseResult.data !== "object" ||
+    responseResult.data === null
+  ) {
+    return null;
   }
 
-  return Result.ok({ player, move: null, errors });
+  const data = responseResult.data as Record<string, unknown>;
+  const info: BotInfo = {};
+  for (const field of ["name", "version", "author"] as const) {
+    if (typeof data[field] === "string") {
+      info[field] = data[field];
+    }
+  }
+  if (
+    Array.isArray(data.capabilities) &&
+    data.capabilities.every((capability) => typeof capability === "string")
+  ) {
+    info.capabilities = data.capabilities;
+  }
+  return info;
+}
+
+/**
+ * Notify a bot of a lifecycle event. Bots don't have to implement these
+ * endpoints, so failures are ignored.
+ */
+async function notifyBot(bot: BotInstance, endpoint: string, body: object) {
+  await Result.tryAsync(
+    async () =>
+      await fetch(botUrl(bot, endpoint), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(LIFECYCLE_TIMEOUT),
+      }),
+  );
+}
+
+async function notifyNewGame(
+  players: Players,
+  bots: Bots,
+  chess: Chess,
+  timeControl: TimeControl | null,
+) {
+  const history = chess.history({ verbose: true });
+  await Promise.all(
+    (Object.keys(players) as Player[]).map((player) =>
+      notifyBot(bots[player], "new-game", {
+        colour: player,
+        opponent: players[player === "white" ? "black" : "white"],
+        fen: chess.fen(),
+        start_fen: history[0]?.before ?? chess.fen(),
+        moves: history.map((move) => move.lan),
+        ...(timeControl
+          ? {
+              time_ms: timeControl.baseMs,
+              increment_ms: timeControl.incrementMs,
+            }
+          : {}),
+      }),
+    ),
+  );
+}
+
+async function notifyGameOver(outcome: GameOutcome, bots: Bots) {
+  await Promise.all(
+    (Object.entries(outcome.players) as [Player, string][]).map(
+      ([player, name]) => {
+        let result = "draw";
+        if (outcome.type === "WIN") {
+          result = outcome.winner === name ? "win" : "loss";
+        }
+        return notifyBot(bots[player], "game-over", {
+          colour: player,
+          result,
+          reason: outcome.reason,
+          pgn: outcome.pgn,
+        });
+      },
+    ),
+  );
 }
 
 export type GameOutcome = {
+  // Written with every result file, see outcome-schema.ts
+  schemaVersion?: number;
   players: Players;
   pgn: string;
   durationMs: number;
-  moves: (ChessJsMove & { durationMs: number })[];
+  moves: Move[];
+  // Set when the game was played on a clock, e.g. "3+0.1"
+  timeControl?: string;
+  // Metadata from each bot's /info endpoint, if it has one
+  bots?: Partial<Record<Player, BotInfo>>;
+  // The commit and image each bot was built from, for bots built in Docker
+  builds?: Partial<Record<Player, BuildProvenance>>;
 } & (
   | {
       type: "DRAW";
@@ -230,40 +607,61 @@ export type GameOutcome = {
         | "INSUFFICIENT_MATERIAL"
         | "FIFTY_MOVES"
         | "THREEFOLD_REPETITION"
+        | "ADJUDICATED_BALANCED_MATERIAL"
         | "OTHER";
     }
   | {
       type: "WIN";
       winner: string;
-      reason: "CHECKMATE";
+      reason:
+        | "CHECKMATE"
+        | "ADJUDICATED_MATERIAL_LEAD"
+        | "ADJUDICATED_BASIC_ENDGAME";
     }
   | {
       type: "WIN";
       winner: string;
-      reason: "OPPONENT_TIMEOUT" | "OPPONENT_EXCEEDED_MAX_ATTEMPTS";
+      reason:
+        | "OPPONENT_TIMEOUT"
+        | "OPPONENT_EXCEEDED_MAX_ATTEMPTS"
+        | "OPPONENT_FLAG_FALL"
+        | "OPPONENT_INVALID_RESPONSE";
       opponentErrors: MoveError[];
     }
 );
 
-function resultFileName(players: Players, pgnPath: string) {
-  const pgnNumber = pgnPath.split(path.sep).pop()?.split("-")[0] as string;
-  return `${players.white}-${players.black}-${pgnNumber}.json`;
-}
-
 async function saveResult(
   players: Players,
   outcome: GameOutcome,
   pgnPath: string,
   saveDir: string,
 ) {
-  await Bun.file(path.join(saveDir, resultFileName(players, pgnPath))).write(
-    JSON.stringify(outcome, null, 2),
+  const resultsPath = path.join(saveDir, resultFileName(players, pgnPath));
+  // Written to a temporary file first, so a runner killed mid-write doesn't
+  // leave a truncated result behind
+  const tempPath = `${resultsPath}.tmp`;
+  await Bun.write(
+    tempPath,
+    JSON.stringify(
+      { schemaVersion: OUTCOME_SCHEMA_VERSION, ...outcome },
+      null,
+      2,
+    ),
   );
+  await fs.rename(tempPath, resultsPath);
 }
 
-async function gameLoop(
+/**
+ * Play a game between two running bots from the starting position in a PGN
+ * file, without saving it.
+ */
+export async function gameLoop(
   players: Players,
+  bots: Bots,
   pgnPath: string,
+  spectator: SpectatedGame,
+  timeControl: TimeControl | null,
+  adjudicationRules: AdjudicationRules = ADJUDICATION_RULES,
 ): Promise<Result<GameOutcome>> {
   console.log(`Playing game between ${players.white} and ${players.black}...`);
 
@@ -274,7 +672,25 @@ async function gameLoop(
   console.log("\nStarting position");
   console.log(chess.ascii());
 
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+  const readyResult = await waitUntilAllReady(players, bots);
+  if (!readyResult.ok) {
+    return readyResult;
+  }
+
+  const botInfo: Partial<Record<Player, BotInfo>> = {};
+  const builds: Partial<Record<Player, BuildProvenance>> = {};
+  for (const [player, name] of Object.entries(players) as [Player, string][]) {
+    const info = await fetchBotInfo(bots[player]);
+    if (info) {
+      botInfo[player] = info;
+    }
+    const build = BUILD_MANIFEST[name];
+    if (build) {
+      builds[player] = build;
+    }
+  }
+  await notifyNewGame(players, bots, chess, timeControl);
+  spectator.start(chess.fen());
 
   let currentPlayer: Player = "white";
   const timeouts: Record<Player, number> = {
@@ -282,40 +698,78 @@ async function gameLoop(
     black: 0,
   };
 
+  const clocks: Clocks | null = timeControl
+    ? { white: timeControl.baseMs, black: timeControl.baseMs }
+    : null;
+  const gameInfo = {
+    ...(timeControl ? { timeControl: formatTimeControl(timeControl) } : {}),
+    ...(Object.keys(botInfo).length > 0 ? { bots: botInfo } : {}),
+    ...(Object.keys(builds).length > 0 ? { builds } : {}),
+  };
+
   const startTime = performance.now();
   const moves: Move[] = [];
+  const adjudicate = createAdjudicator(adjudicationRules);
 
   while (!chess.isGameOver()) {
     currentPlayer = colourToPlayer(chess.turn());
     const otherPlayer = currentPlayer === "white" ? "black" : "white";
-    const moveResult = await makeMove(chess, players);
-    if (!moveResult.ok) {
-      return Result.error(
-        new Error(
-          `Invalid response from ${players[currentPlayer]} as ${currentPlayer}: ${moveResult.error.status} ${moveResult.error.message}`,
-        ),
-      );
-    }
+    const { move, errors, turnDurationMs } = await makeMove(
+      chess,
+      bots,
+      timeControl,
+      clocks,
+    );
 
-    const { move, errors } = moveResult.data;
+    if (clocks && timeControl) {
+      clocks[currentPlayer] -= turnDurationMs;
+      if (clocks[currentPlayer] <= 0) {
+        // A move made after the flag fell doesn't count, so take it back to
+        // keep the PGN in step with the saved moves
+        if (move) {
+          chess.undo();
+        }
+        return Result.ok({
+          type: "WIN",
+          winner: players[otherPlayer],
+          reason: "OPPONENT_FLAG_FALL",
+          pgn: chess.pgn(),
+          moves,
+          durationMs: performance.now() - startTime,
+          opponentErrors: errors,
+          players,
+          ...gameInfo,
+        });
+      }
+      clocks[currentPlayer] += timeControl.incrementMs;
+    }
 
     if (!move) {
       return Result.ok({
         type: "WIN",
         winner: players[otherPlayer],
-        reason: "OPPONENT_EXCEEDED_MAX_ATTEMPTS",
+        reason:
+          errors.at(-1)?.type === "INVALID_RESPONSE"
+            ? "OPPONENT_INVALID_RESPONSE"
+            : "OPPONENT_EXCEEDED_MAX_ATTEMPTS",
         pgn: chess.pgn(),
         moves,
         durationMs: performance.now() - startTime,
         opponentErrors: errors,
         players,
+        ...gameInfo,
       });
     }
 
-    const timeoutsOccurred = errors.filter((err) => err.type === "TIMEOUT");
+    // On a clock, running out of time is the only timeout that matters
+    const timeoutsOccurred = clocks
+      ? []
+      : errors.filter((err) => err.type === "TIMEOUT");
     timeouts[currentPlayer] += timeoutsOccurred.length;
 
     if (timeouts[currentPlayer] >= MAX_TIMEOUTS_PER_GAME) {
+      // The game is lost before the move that took one timeout too many
+      chess.undo();
       return Result.ok({
         type: "WIN",
         pgn: chess.pgn(),
@@ -325,14 +779,49 @@ async function gameLoop(
         durationMs: performance.now() - startTime,
         opponentErrors: errors,
         players,
+        ...gameInfo,
       });
     }
 
+    if (clocks) {
+      move.clockMs = clocks[currentPlayer];
+    }
     moves.push(move);
+    spectator.move({
+      color: move.color,
+      san: move.san,
+      lan: move.lan,
+      fen: move.after,
+      durationMs: move.durationMs,
+      ...(move.clockMs !== undefined ? { clockMs: move.clockMs } : {}),
+      errors,
+    });
     console.log(
       `\nMove ${move.san} by ${players[currentPlayer]} as ${currentPlayer}`,
     );
     console.log(chess.ascii());
+
+    const adjudication = chess.isGameOver() ? null : adjudicate(chess);
+    if (adjudication) {
+      console.log(`Adjudicated: ${adjudication.reason}`);
+      const outcome = {
+        pgn: chess.pgn(),
+        moves,
+        durationMs: performance.now() - startTime,
+        players,
+        ...gameInfo,
+      };
+      return Result.ok(
+        adjudication.type === "WIN"
+          ? {
+              ...outcome,
+              type: "WIN",
+              winner: players[adjudication.winner],
+              reason: adjudication.reason,
+            }
+          : { ...outcome, ...adjudication },
+      );
+    }
   }
 
   const durationMs = performance.now() - startTime;
@@ -347,6 +836,7 @@ async function gameLoop(
         moves,
         durationMs,
         players,
+        ...gameInfo,
       });
     }
     if (chess.isInsufficientMaterial()) {
@@ -357,6 +847,7 @@ async function gameLoop(
         moves,
         durationMs,
         players,
+        ...gameInfo,
       });
     }
     if (chess.isDrawByFiftyMoves()) {
@@ -367,6 +858,7 @@ async function gameLoop(
         moves,
         durationMs,
         players,
+        ...gameInfo,
       });
     }
     if (chess.isThreefoldRepetition()) {
@@ -377,6 +869,7 @@ async function gameLoop(
         moves,
         durationMs,
         players,
+        ...gameInfo,
       });
     }
     return Result.ok({
@@ -386,6 +879,7 @@ async function gameLoop(
       moves,
       durationMs,
       players,
+      ...gameInfo,
     });
   }
 
@@ -398,6 +892,7 @@ async function gameLoop(
       moves,
       durationMs,
       players,
+      ...gameInfo,
     });
   }
 
@@ -410,24 +905,95 @@ async function playAndSaveGame(
   saveDir: string,
 ): Promise<Result<GameOutcome>> {
   const fileName = resultFileName(players, pgnPath);
-  const resultsFile = Bun.file(path.join(saveDir, fileName));
-  if (await resultsFile.exists()) {
-    console.log("Skipping existing game", fileName);
-    const existingResults = (await resultsFile.json()) as GameOutcome;
-    return Result.ok(existingResults);
+  const resultsPath = path.join(saveDir, fileName);
+  if (await Bun.file(resultsPath).exists()) {
+    const outcomeResult = await readOutcome(resultsPath);
+    if (outcomeResult.ok) {
+      console.log("Skipping existing game", fileName);
+    }
+    return outcomeResult;
   }
 
-  await dockerStartAll(players);
+  const startResult = await startAll(players);
+  if (!startResult.ok) {
+    return startResult;
+  }
+  const bots = startResult.data;
+
+  const spectator = spectateGame(players);
+  // Spectators are told the game has ended even if the game loop throws
+  let gameResult: Result<GameOutcome> = Result.error(
+    new Error("Game stopped unexpectedly"),
+  );
+  try {
+    gameResult = await gameLoop(players, bots, pgnPath, spectator, timeControl);
+    if (!gameResult.ok) {
+      return gameResult;
+    }
+
+    await notifyGameOver(gameResult.data, bots);
 
-  const gameResult = await gameLoop(players, pgnPath);
-  if (!gameResult.ok) {
-    return gameResult;
+    await saveResult(players, gameResult.data, pgnPath, saveDir);
+    return Result.ok(gameResult.data);
+  } finally {
+    spectator.end(gameResult);
+    await stopAll(bots);
   }
+}
+
+/**
+ * Play a game, retrying with exponential backoff if it can't be completed,
+ * e.g. because a container didn't start. Every failed attempt goes to the
+ * failure log, and start failures count towards withdrawing the bot. An
+ * invalid saved result fails straight away.
+ */
+async function playWithRetries({
+  players,
+  pgnPath,
+  saveDir,
+}: GameJob): Promise<Result<GameOutcome>> {
+  for (let attempt = 1; ; attempt++) {
+    const gameResult = Result.flatten(
+      await Result.tryAsync(() => playAndSaveGame(players, pgnPath, saveDir)),
+    );
+    if (gameResult.ok) {
+      return gameResult;
+    }
 
-  await saveResult(players, gameResult.data, pgnPath, saveDir);
+    const { error } = gameResult;
+    // A broken result file won't fix itself, and isn't the bots' fault
+    if (error instanceof InvalidResultFileError) {
+      console.error(error.message);
+      return gameResult;
+    }
+    console.error(
+      `Attempt ${attempt} of game between ${players.white} and ${players.black} failed: ${error.message}`,
+    );
+    await logFailure({
+      time: new Date().toISOString(),
+      players,
+      opening: path.basename(pgnPath),
+      attempt,
+      error: error.message,
+      bot: error instanceof BotStartError ? error.bot : null,
+    });
+
+    if (error instanceof BotStartError && isWithdrawn(error.bot)) {
+      console.error(
+        `Withdrawing ${error.bot} after ${MAX_INFRASTRUCTURE_FAILURES} infrastructure failures`,
+      );
+    }
+    if (
+      attempt > GAME_MAX_RETRIES ||
+      [players.white, players.black].some(isWithdrawn)
+    ) {
+      return gameResult;
+    }
 
-  await dockerStopAll(players);
-  return Result.ok(gameResult.data);
+    const backoffMs = GAME_RETRY_BACKOFF * 2 ** (attempt - 1);
+    console.log(`Retrying in ${backoffMs}ms...`);
+    await Bun.sleep(backoffMs);
+  }
 }
 
 function printOutcome(players: Players, gameOutcome: GameOutcome) {
@@ -454,98 +1020,299 @@ async function playMatch(
   // Games must be played sequentially
 
   for (const pgnPath of pgnPaths) {
-    const game1Players = { white: player1, black: player2 };
-    const game1Result = await playAndSaveGame(game1Players, pgnPath, saveDir);
-
-    if (!game1Result.ok) {
-      return Result.error(
-        new Error(
-          `Game between ${player1} and ${player2} failed: ${game1Result.error.message}`,
-        ),
-      );
-    }
-    printOutcome(game1Players, game1Result.data);
-
-    const game2Players = { white: player2, black: player1 };
-    const game2Result = await playAndSaveGame(game2Players, pgnPath, saveDir);
+    for (const players of [
+      { white: player1, black: player2 },
+      { white: player2, black: player1 },
+    ]) {
+      // Like the scheduler, don't start games with a withdrawn bot
+      const withdrawn = [player1, player2].find(isWithdrawn);
+      if (withdrawn) {
+        return Result.error(
+          new Error(
+            `Match between ${player1} and ${player2} stopped: ${withdrawn} has been withdrawn`,
+          ),
+        );
+      }
 
-    if (!game2Result.ok) {
-      return Result.error(
-        new Error(
-          `Game between ${player2} and ${player1} failed: ${game2Result.error.message}`,
-        ),
-      );
+      const gameResult = await playWithRetries({ players, pgnPath, saveDir });
+      if (!gameResult.ok) {
+        return Result.error(
+          new Error(
+            `Game between ${players.white} and ${players.black} failed: ${gameResult.error.message}`,
+          ),
+        );
+      }
+      printOutcome(players, gameResult.data);
     }
-    printOutcome(game2Players, game2Result.data);
   }
   return Result.ok(null);
 }
 
-function setupPorts() {
-  let port = 8000;
-  for (const { name } of entries) {
-    PORTS[name] = port;
-    port++;
+export function setupRuntimes(botEntries: Entry[]) {
+  for (const entry of botEntries) {
+    RUNTIMES[entry.name] = createRuntime(entry);
   }
 }
 
-async function playRoundRobin() {
-  console.log("Calculating game pairs...");
-  const pairs = permutations(entries.map((e) => e.name));
-  console.log(pairs.length);
-
+function maxConcurrentGames() {
   // Each container gets 2 CPUs. Calculate the maximum number of pairs of
   // containers we can run simultaneously while still having 2 CPUs left.
-  const pairsPerGroup = Math.floor((os.cpus().length - 2) / 4);
-
-  // Create groups of games from pairs where the same player can't be in
-  // the same group twice
-  const groups: [string, string][][] = [];
-  for (const pair of pairs) {
-    const availableGroup = groups.find((group) => {
-      return (
-        group.length < pairsPerGroup &&
-        !group.some((p) => pair.includes(p[0]) || pair.includes(p[1]))
-      );
-    });
+  // These are the scheduler's slots.
+  return Math.max(1, Math.floor((os.cpus().length - 2) / 4));
+}
+
+function botLimit(name: string) {
+  return (
+    entries.find((entry) => entry.name === name)?.maxConcurrentGames ??
+    MAX_CONCURRENT_GAMES_PER_BOT
+  );
+}
 
-    if (!availableGroup) {
-      groups.push([pair]);
-    } else {
-      availableGroup.push(pair);
+/**
+ * Play a set of games through the scheduler, skipping any that already have
+ * a valid saved result so an interrupted stage picks up where it left off.
+ * Invalid saved results are reported as failed games rather than replayed.
+ * Games involving a withdrawn bot aren't played. Fails if any game still
+ * failed after its retries, once every other game has finished.
+ */
+export async function scheduleGames(jobs: GameJob[]): Promise<Result<null>> {
+  const unplayed: GameJob[] = [];
+  for (const job of jobs) {
+    const filePath = path.join(
+      job.saveDir,
+      resultFileName(job.players, job.pgnPath),
+    );
+    // A saved result only counts as played if it's valid. Broken files go
+    // back through playWithRetries, which reports them with the failures.
+    if (
+      !(await Bun.file(filePath).exists()) ||
+      !(await readOutcome(filePath)).ok
+    ) {
+      unplayed.push(job);
     }
   }
+  if (unplayed.length < jobs.length) {
+    console.log(
+      `Skipping ${jobs.length - unplayed.length} of ${jobs.length} games that have already been played`,
+    );
+  }
 
+  const withdrawnGame = ({ players }: GameJob) =>
+    [players.white, players.black].some(isWithdrawn);
+  const report = await runGames(
+    unplayed,
+    async (job) => {
+      const gameResult = await playWithRetries(job);
+      if (gameResult.ok) {
+        printOutcome(job.players, gameResult.data);
+      }
+      return gameResult;
+    },
+    {
+      slots: maxConcurrentGames(),
+      botLimit,
+      skip: withdrawnGame,
+    },
+  );
+
+  for (const { players } of [
+    ...report.skipped,
+    ...report.failures.map(({ job }) => job).filter(withdrawnGame),
+  ]) {
+    console.log(
+      `Not playing game between ${players.white} and ${players.black} as a bot has been withdrawn`,
+    );
+  }
+
+  const failures = report.failures.filter(({ job }) => !withdrawnGame(job));
+  if (failures.length > 0) {
+    return Result.error(
+      new Error(
+        `${failures.length} games failed, see ${FAILURE_LOG_FILE}:\n${failures
+          .map(
+            ({ job, error }) =>
+              `  ${job.players.white} vs ${job.players.black} (${path.basename(job.pgnPath)}): ${error.message}`,
+          )
+          .join("\n")}`,
+      ),
+    );
+  }
+  return Result.ok(null);
+}
+
+/**
+ * Every game of a round robin between the given bots.
+ */
+export function roundRobinJobs(
+  names: string[],
+  startingPositions: string[],
+  saveDir: string,
+): GameJob[] {
+  const pairs = permutations(names);
+  console.log(`${pairs.length} game pairs`);
+
+  // Each starting position is played twice per pair, once with each colour
+  return pairs.flatMap(([player1, player2]) =>
+    startingPositions.flatMap((pgnPath) => [
+      { players: { white: player1, black: player2 }, pgnPath, saveDir },
+      { players: { white: player2, black: player1 }, pgnPath, saveDir },
+    ]),
+  );
+}
+
+async function playRoundRobin() {
   console.log("Fetching starting positions...");
-  const startingPositions = await getRoundRobinPgns();
+  const jobs = roundRobinJobs(
+    entries.map((e) => e.name),
+    await getRoundRobinPgns(),
+    ROUND_ROBIN_RESULTS_DIRECTORY,
+  );
 
-  for (const group of groups) {
-    await Promise.all(
-      group.map(async ([player1, player2]) => {
-        console.log(
-          `\n\n\nSTARTING MATCH BETWEEN ${player1} AND ${player2}\n\n\n`,
-        );
-        const matchResult = await playMatch(
-          player1,
-          player2,
-          startingPositions,
-          ROUND_ROBIN_RESULTS_DIRECTORY,
-        );
-        if (!matchResult.ok) {
-          console.error(matchResult.error.message);
-          process.exit(1);
+  const scheduleResult = await scheduleGames(jobs);
+  if (!scheduleResult.ok) {
+    console.error(scheduleResult.error.message);
+    process.exit(1);
+  }
+}
+
+async function getSwissStandings() {
+  const outcomes = (await fs.exists(SWISS_RESULTS_DIRECTORY))
+    ? await getGameOutcomes(SWISS_RESULTS_DIRECTORY)
+    : [];
+  return calculateStandings(
+    outcomes,
+    undefined,
+    swissByes(await readSwissState()),
+  );
+}
+
+async function playSwiss() {
+  await fs.mkdir(SWISS_RESULTS_DIRECTORY, { recursive: true });
+  const pgnFiles = await listPgnFiles();
+  const state = await readSwissState();
+
+  // Resume from the last stored round, whose games may not have finished
+  let round = state.rounds.at(-1);
+  if (round) {
+    console.log(`Resuming Swiss stage at round ${round.round}...`);
+  }
+
+  while (true) {
+    if (!round) {
+      const roundNumber = state.rounds.length + 1;
+
+      // Unplayed bots keep their seeding from the entries list
+      const standings = await getSwissStandings();
+      const ranking = [
+        ...standings.map(({ bot }) => bot),
+        ...entries
+          .map(({ name }) => name)
+          .filter((name) => !standings.some(({ bot }) => bot === name)),
+      ].filter((name) => !isWithdrawn(name));
+
+      // Small fields run out of new opponents before SWISS_ROUNDS
+      const rounds = Math.min(SWISS_ROUNDS, maxSwissRounds(ranking.length));
+      if (roundNumber > rounds) {
+        if (rounds < SWISS_ROUNDS) {
+          console.log(
+            `Ending the Swiss stage after ${rounds} rounds, since ${ranking.length} bots can't play ${SWISS_ROUNDS} without rematches`,
+          );
         }
-        console.log(
-          `\n\n\nFINISHED MATCH BETWEEN ${player1} AND ${player2}\n\n\n`,
+        break;
+      }
+
+      const { rematches, ...pairing } = pairSwissRound(ranking, state.rounds);
+      if (rematches > 0) {
+        console.warn(
+          `Round ${roundNumber} can't be paired without ${rematches} rematches`,
         );
-      }),
+      }
+
+      const opening = path.basename(
+        pgnFiles[(roundNumber - 1) % pgnFiles.length] as string,
+      );
+      round = { round: roundNumber, opening, ...pairing };
+      state.rounds.push(round);
+      await writeSwissState(state);
+    }
+
+    console.log(`\n\n\nSTARTING SWISS ROUND ${round.round}\n\n\n`);
+    if (round.bye) {
+      console.log(`${round.bye} has a bye`);
+    }
+
+    const pgnPath = path.join(PGN_DIRECTORY, round.opening);
+    const scheduleResult = await scheduleGames(
+      round.pairings.map((players) => ({
+        players,
+        pgnPath,
+        saveDir: SWISS_RESULTS_DIRECTORY,
+      })),
     );
+    if (!scheduleResult.ok) {
+      console.error(scheduleResult.error.message);
+      process.exit(1);
+    }
+
+    console.log(`\n\n\nFINISHED SWISS ROUND ${round.round}\n\n\n`);
+    round = undefined;
+  }
+}
+
+function parseStagePlayers(
+  value: string | undefined,
+): [string, string] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const players = value.split(",").map((player) => player.trim());
+  if (players.length !== 2) {
+    throw new Error(`Expected two comma-separated players, got "${value}"`);
   }
+  for (const player of players) {
+    if (!entries.some(({ name }) => name === player)) {
+      throw new Error(`Unknown player "${player}" in "${value}"`);
+    }
+  }
+  return players as [string, string];
+}
+
+/**
+ * Pick the playoff players from the qualifying stage standings and write them
+ * to the stage player files. The top two go to the finals and the next two to
+ * the third place match, unless overridden.
+ */
+async function advanceToPlayoffs(
+  standings: Standing[],
+  overrides: {
+    finals?: [string, string];
+    thirdPlace?: [string, string];
+  },
+) {
+  console.log("\n\n\nQUALIFYING STANDINGS\n");
+  for (const { rank, bot, points } of standings) {
+    console.log(`${rank}. ${bot} (${points})`);
+  }
+
+  const [first, second, third, fourth] = standings.map(({ bot }) => bot);
+  if (!first || !second || !third || !fourth) {
+    throw new Error(
+      `At least four players are needed for the playoffs, got ${standings.length}`,
+    );
+  }
+
+  const finals = overrides.finals ?? [first, second];
+  const thirdPlace = overrides.thirdPlace ?? [third, fourth];
+  console.log(`\nFinals: ${finals.join(" vs ")}`);
+  console.log(`Third place: ${thirdPlace.join(" vs ")}\n\n\n`);
+
+  await writeStagePlayers(FINALS_PLAYERS_FILE, finals);
+  await writeStagePlayers(THIRD_PLACE_PLAYERS_FILE, thirdPlace);
 }
 
 async function playThirdPlaceMatch() {
   const startingPositions = await getThirdPlaceGames();
-  const [player1, player2] = thirdPlacePlayers as [string, string];
+  const [player1, player2] = await readStagePlayers(THIRD_PLACE_PLAYERS_FILE);
 
   console.log(
     `\n\n\nSTARTING THIRD PLACE MATCH BETWEEN ${player1} AND ${player2}\n\n\n`,
@@ -567,7 +1334,7 @@ async function playThirdPlaceMatch() {
 
 async function playFinals() {
   const startingPositions = await getFinalsGames();
-  const [player1, player2] = finalsPlayers as [string, string];
+  const [player1, player2] = await readStagePlayers(FINALS_PLAYERS_FILE);
 
   console.log(
     `\n\n\nSTARTING FINALS MATCH BETWEEN ${player1} AND ${player2}\n\n\n`,
@@ -587,16 +1354,248 @@ async function playFinals() {
   );
 }
 
+/**
+ * Play a bracket match, adding tiebreak games on the next unused starting
+ * positions until one player is ahead. If the tiebreaks run out, the better
+ * seed goes through.
+ */
+async function playBracketMatch(
+  state: BracketState,
+  bracketMatch: BracketMatch,
+  [player1, player2]: [string, string],
+  pgnFiles: string[],
+): Promise<Result<null>> {
+  const saveDir = path.join(BRACKET_RESULTS_DIRECTORY, bracketMatch.id);
+  await fs.mkdir(saveDir, { recursive: true });
+
+  if (bracketMatch.openings.length === 0) {
+    bracketMatch.openings = pgnFiles
+      .slice(
+        ROUND_ROBIN_STARTING_POSITIONS,
+        ROUND_ROBIN_STARTING_POSITIONS + BRACKET_STARTING_POSITIONS_PER_MATCH,
+      )
+      .map((file) => path.basename(file));
+    await writeBracketState(state);
+  }
+
+  while (true) {
+    const matchResult = await playMatch(
+      player1,
+      player2,
+      bracketMatch.openings.map((opening) => path.join(PGN_DIRECTORY, opening)),
+      saveDir,
+    );
+    const withdrawn = [player1, player2].find(isWithdrawn);
+    if (withdrawn) {
+      console.log(`${withdrawn} has been withdrawn from ${bracketMatch.id}`);
+      bracketMatch.result = {
+        winner: withdrawn === player1 ? player2 : player1,
+        loser: withdrawn,
+        decidedBy: "WALKOVER",
+      };
+      break;
+    }
+    if (!matchResult.ok) {
+      return matchResult;
+    }
+
+    const totals = calculatePoints(await getGameOutcomes(saveDir));
+    const points = (bot: string) =>
+      totals.find((total) => total.bot === bot)?.points ?? 0;
+    if (points(player1) !== points(player2)) {
+      const player1Won = points(player1) > points(player2);
+      bracketMatch.result = {
+        winner: player1Won ? player1 : player2,
+        loser: player1Won ? player2 : player1,
+        decidedBy: "GAMES",
+      };
+      break;
+    }
+
+    const nextOpening = pgnFiles
+      .slice(ROUND_ROBIN_STARTING_POSITIONS)
+      .map((file) => path.basename(file))
+      .find((file) => !bracketMatch.openings.includes(file));
+    // Counted from the saved openings, so a resumed match keeps its count
+    const tiebreaks =
+      bracketMatch.openings.length - BRACKET_STARTING_POSITIONS_PER_MATCH;
+    if (!nextOpening || tiebreaks >= BRACKET_MAX_TIEBREAKS) {
+      const player1Seeded =
+        state.seeds.indexOf(player1) < state.seeds.indexOf(player2);
+      console.log(
+        `Match ${bracketMatch.id} is still level, advancing the better seed`,
+      );
+      bracketMatch.result = {
+        winner: player1Seeded ? player1 : player2,
+        loser: player1Seeded ? player2 : player1,
+        decidedBy: "SEED",
+      };
+      break;
+    }
+
+    console.log(`Match ${bracketMatch.id} is level, playing a tiebreak...`);
+    bracketMatch.openings.push(nextOpening);
+    await writeBracketState(state);
+  }
+
+  await writeBracketState(state);
+  return Result.ok(null);
+}
+
+async function playBracket(format: BracketFormat, seeds: string[]) {
+  await fs.mkdir(BRACKET_RESULTS_DIRECTORY, { recursive: true });
+  const pgnFiles = await listPgnFiles();
+
+  let state = await readBracketState();
+  if (state) {
+    console.log("Resuming bracket...");
+  } else {
+    state = createBracket(format, seeds);
+    await writeBracketState(state);
+  }
+
+  // Players can only be in one unplayed match at a time, so all ready
+  // matches can run alongside each other
+  let ready = advanceBracket(state);
+  while (ready.length > 0) {
+    await writeBracketState(state);
+    const group = ready.slice(0, maxConcurrentGames());
+    await Promise.all(
+      group.map(async ({ match: bracketMatch, players }) => {
+        console.log(
+          `\n\n\nSTARTING BRACKET MATCH ${bracketMatch.id} BETWEEN ${players[0]} AND ${players[1]}\n\n\n`,
+        );
+        const matchResult = await playBracketMatch(
+          state,
+          bracketMatch,
+          players,
+          pgnFiles,
+        );
+        if (!matchResult.ok) {
+          console.error(matchResult.error.message);
+          process.exit(1);
+        }
+        console.log(
+          `\n\n\nFINISHED BRACKET MATCH ${bracketMatch.id}, ${bracketMatch.result?.winner} WINS\n\n\n`,
+        );
+      }),
+    );
+    ready = advanceBracket(state);
+  }
+
+  await writeBracketState(state);
+  console.log(`\n\n\nBRACKET CHAMPION: ${bracketChampion(state)}\n\n\n`);
+}
+
 async function main() {
+  // --swiss plays a Swiss stage instead of the round robin. With --pipeline,
+  // the playoff players are taken from the standings of whichever stage was
+  // played instead of the hand-edited player files. --finals and
+  // --third-place take a comma-separated pair of players to override either
+  // match by hand.
+  //
+  // --bracket single|double replaces the third place match and finals with
+  // an elimination bracket of the top --bracket-players bots, seeded from the
+  // qualifying standings with --pipeline or from the --seeds standings CSV.
+  //
+  // --time-control, e.g. 3+0.1, plays every game on a chess clock.
+  //
+  // --spectate serves the games in progress on SPECTATOR_PORT, so they can be
+  // watched live from a browser.
+  const { values: args } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      swiss: { type: "boolean", default: false },
+      pipeline: { type: "boolean", default: false },
+      finals: { type: "string" },
+      "third-place": { type: "string" },
+      bracket: { type: "string" },
+      "bracket-players": { type: "string" },
+      seeds: {
+        type: "string",
+        default: path.join(DATA_DIRECTORY, "round-robin-results.csv"),
+      },
+      "time-control": { type: "string" },
+      spectate: { type: "boolean", default: false },
+    },
+  });
+
+  entries = (await Bun.file(ENTRIES_FILE).json()) as Entry[];
+  if (args["time-control"]) {
+    timeControl = parseTimeControl(args["time-control"]);
+  }
+  if ((args.finals || args["third-place"]) && !args.pipeline) {
+    throw new Error(
+      "--finals and --third-place only override the players picked by --pipeline",
+    );
+  }
+  const playoffOverrides = {
+    finals: parseStagePlayers(args.finals),
+    thirdPlace: parseStagePlayers(args["third-place"]),
+  };
+
+  if (args.spectate) {
+    startSpectatorServer(SPECTATOR_PORT);
+  }
+
   await fs.mkdir(RESULTS_DIRECTORY, { recursive: true });
+  await loadFailureLog();
+  stopBotsOnSignal();
 
   console.log("Downloading repositories and building images...");
-  await downloadAndBuild();
-  setupPorts();
+  const builds = await downloadAndBuild(entries);
+  BUILD_MANIFEST = builds.manifest;
+  for (const { name, status, logPath } of builds.report) {
+    if (status !== "BUILT") {
+      console.error(`Withdrawing ${name}: build ${status}, see ${logPath}`);
+      await withdraw(name, `build ${status}`);
+    }
+  }
+  setupRuntimes(entries);
+
+  if (args.swiss) {
+    await playSwiss();
+  } else {
+    await playRoundRobin();
+  }
 
-  await playRoundRobin();
+  let standings: Standing[] | null = null;
+  if (args.pipeline) {
+    standings = args.swiss
+      ? await getSwissStandings()
+      : calculateStandings(
+          await getGameOutcomes(ROUND_ROBIN_RESULTS_DIRECTORY),
+        );
+  }
+
+  if (args.bracket) {
+    const seeds = standings
+      ? standings.map(({ bot }) => bot)
+      : await readSeeds(args.seeds);
+    const bracketPlayers =
+      args["bracket-players"] !== undefined
+        ? parseBracketPlayers(args["bracket-players"], seeds.length)
+        : seeds.length;
+    await playBracket(
+      parseBracketFormat(args.bracket),
+      seeds.slice(0, bracketPlayers),
+    );
+    return;
+  }
+
+  if (standings) {
+    await advanceToPlayoffs(standings, playoffOverrides);
+  }
   await playThirdPlaceMatch();
   await playFinals();
 }
 
-await main();
+// Only run when started as a script, so tests can import the game loop
+if (import.meta.main) {
+  // The spectator server would otherwise keep the process alive
+  try {
+    await main();
+  } finally {
+    await stopSpectatorServer();
+  }
+}
@@ -0,0 +1,52 @@
+const STYLE = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 70rem; padding: 0 1rem; color: #222; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; }
+th { background: #f3f3f3; }
+td.number { text-align: right; }
+td.self { background: #eee; }
+.board { border-collapse: collapse; border: 2px solid #444; }
+.board td { width: 3rem; height: 3rem; padding: 0; border: none; text-align: center; font-size: 2.2rem; line-height: 3rem; }
+.board .light { background: #f0d9b5; }
+.board .dark { background: #b58863; }
+.moves span { cursor: pointer; padding: 0 0.2rem; }
+.moves span.current { background: #ffe08a; }
+`;
+
+/**
+ * Defines `drawBoard(table, fen)`, which fills a table with the position
+ * using Unicode pieces so pages don't need any assets.
+ */
+export const BOARD_SCRIPT = `
+const PIECES = { K: "♔", Q: "♕", R: "♖", B: "♗", N: "♘", P: "♙", k: "♚", q: "♛", r: "♜", b: "♝", n: "♞", p: "♟" };
+function drawBoard(table, fen) {
+  const rows = fen.split(" ")[0].split("/");
+  table.innerHTML = rows.map((row, r) => {
+    const squares = [...row].flatMap((c) => /[1-8]/.test(c) ? Array(Number(c)).fill("") : [PIECES[c]]);
+    return "<tr>" + squares.map((piece, f) => '<td class="' + ((r + f) % 2 ? "dark" : "light") + '">' + piece + "</td>").join("") + "</tr>";
+  }).join("");
+}
+`;
+
+export function escapeHtml(value: string | number) {
+  return String(value)
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+export function htmlPage(title: string, body: string) {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { GameOutcome } from "./game";
+import {
+  InvalidResultFileError,
+  OUTCOME_SCHEMA_VERSION,
+  parseOutcome,
+  readOutcome,
+} from "./outcome-schema";
+
+const OUTCOME: GameOutcome = {
+  type: "WIN",
+  winner: "a",
+  reason: "CHECKMATE",
+  players: { white: "a", black: "b" },
+  pgn: "",
+  durationMs: 0,
+  moves: [],
+};
+
+function parseError(json: unknown) {
+  const parseResult = parseOutcome(json, "result.json");
+  if (parseResult.ok) {
+    throw new Error("Expected the outcome to be rejected");
+  }
+  return parseResult.error;
+}
+
+describe("parseOutcome", () => {
+  test("upgrades files saved before outcomes were versioned", () => {
+    const parseResult = parseOutcome(OUTCOME, "result.json");
+    expect(parseResult).toEqual({
+      ok: true,
+      data: { ...OUTCOME, schemaVersion: OUTCOME_SCHEMA_VERSION },
+    });
+  });
+
+  test("accepts files at the current version", () => {
+    const outcome = { ...OUTCOME, schemaVersion: OUTCOME_SCHEMA_VERSION };
+    expect(parseOutcome(outcome, "result.json")).toEqual({
+      ok: true,
+      data: outcome,
+    });
+  });
+
+  test("rejects files from a newer runner", () => {
+    const error = parseError({
+      ...OUTCOME,
+      schemaVersion: OUTCOME_SCHEMA_VERSION + 1,
+    });
+    expect(error).toBeInstanceOf(InvalidResultFileError);
+    expect(error.field).toBe("schemaVersion");
+  });
+
+  test("names the field that's wrong", () => {
+    expect(parseError({ ...OUTCOME, winner: "c" }).field).toBe("winner");
+    expect(parseError({ ...OUTCOME, reason: "STALEMATE" }).field).toBe(
+      "reason",
+    );
+    expect(parseError({ ...OUTCOME, moves: [{ color: "w" }] }).field).toBe(
+      "moves[0].from",
+    );
+    expect(parseError({ ...OUTCOME, reason: "OPPONENT_TIMEOUT" }).field).toBe(
+      "opponentErrors",
+    );
+  });
+});
+
+describe("readOutcome", () => {
+  test("rejects a file cut short mid-write", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "runner-test-"));
+    const filePath = path.join(directory, "result.json");
+    try {
+      await Bun.write(filePath, JSON.stringify(OUTCOME).slice(0, 20));
+      const readResult = await readOutcome(filePath);
+      expect(readResult.ok).toBe(false);
+    } finally {
+      await fs.rm(directory, { recursive: true });
+    }
+  });
+});
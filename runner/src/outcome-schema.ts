@@ -0,0 +1,225 @@
+import type { GameOutcome, MoveError } from "./game";
+import { Result } from "./result";
+
+type Json = Record<string, unknown>;
+
+// Each migration upgrades a result file from the schema version at its index
+// to the next one. Files saved before result files were versioned have no
+// schemaVersion and count as version 0. The current version is the number
+// of migrations, so a schema change only needs a new one at the end.
+const MIGRATIONS: ((outcome: Json) => Json)[] = [
+  // Version 1 only adds schemaVersion itself
+  (outcome) => outcome,
+];
+
+export const OUTCOME_SCHEMA_VERSION = MIGRATIONS.length;
+
+// What kind of outcome each reason belongs to. Forfeits also carry the
+// errors that lost the game.
+const REASONS: Record<GameOutcome["reason"], "DRAW" | "WIN" | "FORFEIT"> = {
+  STALEMATE: "DRAW",
+  INSUFFICIENT_MATERIAL: "DRAW",
+  FIFTY_MOVES: "DRAW",
+  THREEFOLD_REPETITION: "DRAW",
+  ADJUDICATED_BALANCED_MATERIAL: "DRAW",
+  OTHER: "DRAW",
+  CHECKMATE: "WIN",
+  ADJUDICATED_MATERIAL_LEAD: "WIN",
+  ADJUDICATED_BASIC_ENDGAME: "WIN",
+  OPPONENT_TIMEOUT: "FORFEIT",
+  OPPONENT_EXCEEDED_MAX_ATTEMPTS: "FORFEIT",
+  OPPONENT_FLAG_FALL: "FORFEIT",
+  OPPONENT_INVALID_RESPONSE: "FORFEIT",
+};
+
+const MOVE_ERROR_TYPES: MoveError["type"][] = [
+  "TIMEOUT",
+  "INVALID_MOVE",
+  "INVALID_RESPONSE",
+  "OUT_OF_MEMORY",
+  "CRASHED",
+  "CONNECTION_REFUSED",
+  "CONNECTION_RESET",
+  "NETWORK_ERROR",
+];
+
+export class InvalidResultFileError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly field: string,
+    problem: string,
+  ) {
+    super(`Invalid result file ${filePath}: ${field} ${problem}`);
+    this.name = "InvalidResultFileError";
+  }
+}
+
+// Thrown while checking an outcome, then given the file's path
+class FieldError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly problem: string,
+  ) {
+    super(`${field} ${problem}`);
+  }
+}
+
+function expectObject(value: unknown, field: string): Json {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new FieldError(field, "must be an object");
+  }
+  return value as Json;
+}
+
+function expectArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new FieldError(field, "must be an array");
+  }
+  return value;
+}
+
+function expectType(
+  value: unknown,
+  type: "string" | "number",
+  field: string,
+  { optional = false }: { optional?: boolean } = {},
+) {
+  if (optional && value === undefined) {
+    return;
+  }
+  if (typeof value !== type) {
+    throw new FieldError(field, `must be a ${type}`);
+  }
+}
+
+function expectOneOf<T extends string>(
+  value: unknown,
+  options: readonly T[],
+  field: string,
+): T {
+  if (!options.includes(value as T)) {
+    throw new FieldError(field, `must be one of ${options.join(", ")}`);
+  }
+  return value as T;
+}
+
+function validateMove(value: unknown, field: string) {
+  const move = expectObject(value, field);
+  expectOneOf(move.color, ["w", "b"], `${field}.color`);
+  for (const key of ["from", "to", "piece", "san", "lan", "before", "after"]) {
+    expectType(move[key], "string", `${field}.${key}`);
+  }
+  expectType(move.durationMs, "number", `${field}.durationMs`);
+  expectType(move.clockMs, "number", `${field}.clockMs`, { optional: true });
+}
+
+function validateOutcome(outcome: Json) {
+  const players = expectObject(outcome.players, "players");
+  expectType(players.white, "string", "players.white");
+  expectType(players.black, "string", "players.black");
+  expectType(outcome.pgn, "string", "pgn");
+  expectType(outcome.durationMs, "number", "durationMs");
+  expectType(outcome.timeControl, "string", "timeControl", { optional: true });
+  if (outcome.bots !== undefined) {
+    expectObject(outcome.bots, "bots");
+  }
+  if (outcome.builds !== undefined) {
+    expectObject(outcome.builds, "builds");
+  }
+
+  const type = expectOneOf(outcome.type, ["DRAW", "WIN"], "type");
+  const reason = expectOneOf(
+    outcome.reason,
+    Object.keys(REASONS) as GameOutcome["reason"][],
+    "reason",
+  );
+  const kind = REASONS[reason];
+  if ((kind === "DRAW") !== (type === "DRAW")) {
+    throw new FieldError(
+      "reason",
+      `${reason} can't end a game of type ${type}`,
+    );
+  }
+  if (type === "WIN") {
+    expectOneOf(
+      outcome.winner,
+      [players.white, players.black] as string[],
+      "winner",
+    );
+  }
+  if (kind === "FORFEIT") {
+    for (const [i, value] of expectArray(
+      outcome.opponentErrors,
+      "opponentErrors",
+    ).entries()) {
+      const error = expectObject(value, `opponentErrors[${i}]`);
+      expectOneOf(error.type, MOVE_ERROR_TYPES, `opponentErrors[${i}].type`);
+    }
+  }
+
+  for (const [i, move] of expectArray(outcome.moves, "moves").entries()) {
+    validateMove(move, `moves[${i}]`);
+  }
+}
+
+function migrate(outcome: Json): Json {
+  const version = outcome.schemaVersion ?? 0;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new FieldError("schemaVersion", "must be an integer");
+  }
+  if (version > OUTCOME_SCHEMA_VERSION) {
+    throw new FieldError(
+      "schemaVersion",
+      `is ${version}, newer than the ${OUTCOME_SCHEMA_VERSION} this runner supports`,
+    );
+  }
+
+  let migrated = outcome;
+  for (const [index, migration] of MIGRATIONS.entries()) {
+    if (index >= version) {
+      migrated = { ...migration(migrated), schemaVersion: index + 1 };
+    }
+  }
+  return migrated;
+}
+
+/**
+ * Check that parsed JSON is a game outcome, upgrading it first if it was
+ * saved with an older schema.
+ */
+export function parseOutcome(
+  json: unknown,
+  filePath: string,
+): Result<GameOutcome, InvalidResultFileError> {
+  const parseResult = Result.try(() => {
+    const outcome = migrate(expectObject(json, "outcome"));
+    validateOutcome(outcome);
+    return outcome as GameOutcome;
+  });
+  return Result.mapErr(parseResult, (error) =>
+    error instanceof FieldError
+      ? new InvalidResultFileError(filePath, error.field, error.problem)
+      : new InvalidResultFileError(filePath, "outcome", error.message),
+  );
+}
+
+/**
+ * Read and validate a result file, e.g. one that may have been cut short by
+ * the runner being killed mid-write.
+ */
+export async function readOutcome(
+  filePath: string,
+): Promise<Result<GameOutcome, InvalidResultFileError>> {
+  const text = await Bun.file(filePath).text();
+  const jsonResult = Result.try(() => JSON.parse(text) as unknown);
+  if (!jsonResult.ok) {
+    return Result.error(
+      new InvalidResultFileError(
+        filePath,
+        "outcome",
+        `isn't valid JSON: ${jsonResult.error.message}`,
+      ),
+    );
+  }
+  return parseOutcome(jsonResult.data, filePath);
+}
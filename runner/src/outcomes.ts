@@ -0,0 +1,108 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  BRACKET_RESULTS_DIRECTORY,
+  FINALS_RESULTS_DIRECTORY,
+  ROUND_ROBIN_RESULTS_DIRECTORY,
+  SWISS_RESULTS_DIRECTORY,
+  THIRD_PLACE_RESULTS_DIRECTORY,
+} from "./config";
+import type { GameOutcome } from "./game";
+import { type InvalidResultFileError, readOutcome } from "./outcome-schema";
+import { MultiError, Result } from "./result";
+
+export type Stage = {
+  name: string;
+  label: string;
+  directory: string;
+  // Bracket results are stored in a directory per match
+  recursive?: boolean;
+};
+
+export const STAGES: Stage[] = [
+  {
+    name: "round-robin",
+    label: "Round Robin",
+    directory: ROUND_ROBIN_RESULTS_DIRECTORY,
+  },
+  { name: "swiss", label: "Swiss", directory: SWISS_RESULTS_DIRECTORY },
+  {
+    name: "third-place",
+    label: "Third Place Match",
+    directory: THIRD_PLACE_RESULTS_DIRECTORY,
+  },
+  { name: "finals", label: "Finals", directory: FINALS_RESULTS_DIRECTORY },
+  {
+    name: "bracket",
+    label: "Bracket",
+    directory: BRACKET_RESULTS_DIRECTORY,
+    recursive: true,
+  },
+];
+
+export type GameResult = {
+  // Path of the result file, which is named after the players and opening
+  filePath: string;
+  outcome: GameOutcome;
+};
+
+/**
+ * The number of the starting position a game was played from, which ends
+ * its result file's name.
+ */
+export function openingNumber(filePath: string) {
+  const openingNumberString = path
+    .basename(filePath)
+    .match(/-(\d+)\.json$/)?.[1];
+  if (!openingNumberString) {
+    throw new Error(`Invalid file name: ${filePath}`);
+  }
+  return Number.parseInt(openingNumberString);
+}
+
+export async function listResultFiles(
+  dir: string,
+  { recursive = false }: { recursive?: boolean } = {},
+): Promise<string[]> {
+  return (await fs.readdir(dir, { recursive, withFileTypes: true }))
+    .filter((dirent) => dirent.isFile() && dirent.name.endsWith(".json"))
+    .map((dirent) => path.join(dirent.parentPath, dirent.name));
+}
+
+export async function getGameResults(
+  dir: string,
+  { recursive = false }: { recursive?: boolean } = {},
+): Promise<GameResult[]> {
+  const results: Result<GameResult, InvalidResultFileError>[] = [];
+
+  for (const filePath of await listResultFiles(dir, { recursive })) {
+    const outcomeResult = await readOutcome(filePath);
+    results.push(
+      Result.map(outcomeResult, (outcome) => ({ filePath, outcome })),
+    );
+  }
+
+  // Report every bad file at once rather than stopping at the first
+  const [gameResults, errors] = Result.partition(results);
+  if (errors.length > 0) {
+    throw new MultiError(errors);
+  }
+  return gameResults;
+}
+
+/**
+ * Read every result of a stage, or none if the stage hasn't been played.
+ */
+export async function getStageResults(stage: Stage): Promise<GameResult[]> {
+  if (!(await fs.exists(stage.directory))) {
+    return [];
+  }
+  return getGameResults(stage.directory, { recursive: stage.recursive });
+}
+
+export async function getGameOutcomes(
+  dir: string,
+  options: { recursive?: boolean } = {},
+): Promise<GameOutcome[]> {
+  return (await getGameResults(dir, options)).map(({ outcome }) => outcome);
+}
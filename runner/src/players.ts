@@ -0,0 +1,6 @@
+import type { Color } from "chess.js";
+import type { Player } from "./game";
+
+export function colourToPlayer(colour: Color): Player {
+  return colour === "w" ? "white" : "black";
+}
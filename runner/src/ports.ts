@@ -0,0 +1,38 @@
+import { PORT_RANGE_END, PORT_RANGE_START } from "./config";
+
+const allocated = new Set<number>();
+
+function isFree(port: number) {
+  try {
+    const listener = Bun.listen({
+      hostname: "0.0.0.0",
+      port,
+      socket: { data() {} },
+    });
+    listener.stop(true);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reserve a port for a bot instance. Ports handed out by this process are
+ * tracked so concurrent games never share one, and anything else listening
+ * on a port is detected by trying to bind it.
+ */
+export function allocatePort(): number {
+  for (let port = PORT_RANGE_START; port < PORT_RANGE_END; port++) {
+    if (!allocated.has(port) && isFree(port)) {
+      allocated.add(port);
+      return port;
+    }
+  }
+  throw new Error(
+    `No free ports between ${PORT_RANGE_START} and ${PORT_RANGE_END}`,
+  );
+}
+
+export function releasePort(port: number) {
+  allocated.delete(port);
+}
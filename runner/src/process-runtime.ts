@@ -0,0 +1,59 @@
+import type { Subprocess } from "bun";
+import { Result } from "./result";
+import type { BotRuntime, BotStatus, ProcessRuntimeConfig } from "./runtime";
+
+/**
+ * The status of a bot running as a local process, for runtimes that spawn
+ * one.
+ */
+export function subprocessStatus(subprocess: Subprocess): BotStatus {
+  return {
+    // A process killed by a signal has no exit code
+    running: subprocess.exitCode === null && subprocess.signalCode === null,
+    oomKilled: false,
+    exitCode: subprocess.exitCode,
+    signal: subprocess.signalCode,
+  };
+}
+
+/**
+ * Run a bot as a local process speaking the same HTTP protocol as the Docker
+ * images, e.g. `gleam run` in a checkout. Resource limits aren't enforced.
+ */
+export function processRuntime(
+  name: string,
+  config: ProcessRuntimeConfig,
+): BotRuntime {
+  return {
+    async start(port) {
+      console.log(
+        `Starting ${name} on port ${port} with ${config.command[0]}...`,
+      );
+      const subprocess = Bun.spawn({
+        cmd: config.command.map((arg) =>
+          arg.replaceAll("{port}", port.toString()),
+        ),
+        cwd: config.cwd,
+        env: { ...process.env, ...config.env, PORT: port.toString() },
+        stdout: "ignore",
+        stderr: "inherit",
+      });
+      console.log(`Started ${name}`);
+
+      return {
+        port,
+
+        async stop() {
+          console.log(`Stopping ${name} on port ${port}...`);
+          subprocess.kill();
+          await subprocess.exited;
+          console.log(`Stopped ${name}`);
+        },
+
+        async status() {
+          return Result.ok(subprocessStatus(subprocess));
+        },
+      };
+    },
+  };
+}
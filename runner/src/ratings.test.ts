@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { RATING_BASE } from "./config";
+import type { GameOutcome } from "./game";
+import { calculateRatings } from "./ratings";
+
+function game(
+  white: string,
+  black: string,
+  winner: string | null,
+): GameOutcome {
+  const players = { white, black };
+  return winner
+    ? {
+        type: "WIN",
+        winner,
+        reason: "CHECKMATE",
+        players,
+        pgn: "",
+        durationMs: 0,
+        moves: [],
+      }
+    : {
+        type: "DRAW",
+        reason: "STALEMATE",
+        players,
+        pgn: "",
+        durationMs: 0,
+        moves: [],
+      };
+}
+
+describe("calculateRatings", () => {
+  test("rates evenly matched bots the same", () => {
+    const ratings = calculateRatings([
+      game("a", "b", "a"),
+      game("b", "a", "b"),
+    ]);
+    expect(ratings.map(({ rating }) => rating)).toEqual([
+      RATING_BASE,
+      RATING_BASE,
+    ]);
+  });
+
+  test("rates a stronger bot higher and keeps a perfect score finite", () => {
+    const ratings = calculateRatings([
+      game("a", "b", "a"),
+      game("b", "a", "a"),
+      game("a", "c", "a"),
+      game("c", "b", null),
+    ]);
+    const rating = (bot: string) =>
+      ratings.find((rating) => rating.bot === bot)?.rating ?? Number.NaN;
+
+    expect(Number.isFinite(rating("a"))).toBe(true);
+    expect(rating("a")).toBeGreaterThan(rating("b"));
+    expect(rating("a")).toBeGreaterThan(rating("c"));
+    expect(ratings.find((rating) => rating.bot === "a")).toMatchObject({
+      games: 3,
+      score: 3,
+    });
+  });
+});
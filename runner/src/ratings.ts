@@ -0,0 +1,194 @@
+import {
+  RATING_BASE,
+  RATING_MAX_ITERATIONS,
+  RATING_PRIOR_DRAWS,
+  RATING_TOLERANCE,
+} from "./config";
+import type { GameOutcome } from "./game";
+
+export type Rating = {
+  bot: string;
+  games: number;
+  score: number;
+  rating: number;
+  // Half-width of the 95% confidence interval, in Elo points
+  error: number;
+};
+
+// Converts a natural-log strength into Elo points
+const ELO_PER_LOG_STRENGTH = 400 / Math.LN10;
+
+type PairKey = `${number}:${number}`;
+
+function pairKey(a: number, b: number): PairKey {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+/**
+ * Invert a symmetric positive-definite matrix with Gauss-Jordan elimination.
+ */
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)),
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row]?.[col] ?? 0) > Math.abs(a[pivot]?.[col] ?? 0)) {
+        pivot = row;
+      }
+    }
+    [a[col], a[pivot]] = [a[pivot] as number[], a[col] as number[]];
+
+    const pivotRow = a[col] as number[];
+    const pivotValue = pivotRow[col] as number;
+    for (let j = 0; j < 2 * n; j++) {
+      pivotRow[j] = (pivotRow[j] as number) / pivotValue;
+    }
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) {
+        continue;
+      }
+      const current = a[row] as number[];
+      const factor = current[col] as number;
+      for (let j = 0; j < 2 * n; j++) {
+        current[j] = (current[j] as number) - factor * (pivotRow[j] as number);
+      }
+    }
+  }
+
+  return a.map((row) => row.slice(n));
+}
+
+/**
+ * Fit Bradley-Terry ratings (on the Elo scale) to a set of game outcomes.
+ *
+ * Draws count as half a win for each side. Every bot is also given
+ * `RATING_PRIOR_DRAWS` virtual draws against a phantom opponent rated
+ * `RATING_BASE`, which keeps perfect scores finite and pins the scale so
+ * ratings from separate runs are comparable.
+ */
+export function calculateRatings(outcomes: GameOutcome[]): Rating[] {
+  const bots = [
+    ...new Set(
+      outcomes.flatMap((outcome) => [
+        outcome.players.white,
+        outcome.players.black,
+      ]),
+    ),
+  ].toSorted();
+  const index = new Map(bots.map((bot, i) => [bot, i]));
+
+  const scores = bots.map(() => 0);
+  const games = bots.map(() => 0);
+  const pairGames = new Map<PairKey, number>();
+
+  for (const outcome of outcomes) {
+    const white = index.get(outcome.players.white) as number;
+    const black = index.get(outcome.players.black) as number;
+
+    games[white] = (games[white] as number) + 1;
+    games[black] = (games[black] as number) + 1;
+
+    const key = pairKey(white, black);
+    pairGames.set(key, (pairGames.get(key) ?? 0) + 1);
+
+    if (outcome.type === "WIN") {
+      const winner = outcome.winner === outcome.players.white ? white : black;
+      scores[winner] = (scores[winner] as number) + 1;
+    } else {
+      scores[white] = (scores[white] as number) + 0.5;
+      scores[black] = (scores[black] as number) + 0.5;
+    }
+  }
+
+  const pairs = [...pairGames.entries()].map(([key, count]) => {
+    const [a, b] = key.split(":").map(Number) as [number, number];
+    return { a, b, count };
+  });
+
+  // Minorization-maximization updates (Hunter, 2004). The phantom opponent
+  // has a fixed strength of 1.
+  let strengths = bots.map(() => 1);
+  for (let iteration = 0; iteration < RATING_MAX_ITERATIONS; iteration++) {
+    const denominators = bots.map(
+      (_, i) => RATING_PRIOR_DRAWS / ((strengths[i] as number) + 1),
+    );
+    for (const { a, b, count } of pairs) {
+      const sum = (strengths[a] as number) + (strengths[b] as number);
+      denominators[a] = (denominators[a] as number) + count / sum;
+      denominators[b] = (denominators[b] as number) + count / sum;
+    }
+
+    const updated = bots.map(
+      (_, i) =>
+        ((scores[i] as number) + RATING_PRIOR_DRAWS / 2) /
+        (denominators[i] as number),
+    );
+    const change = Math.max(
+      ...updated.map((s, i) =>
+        Math.abs(Math.log(s / (strengths[i] as number))),
+      ),
+    );
+    strengths = updated;
+    if (change < RATING_TOLERANCE) {
+      break;
+    }
+  }
+
+  // Fisher information of the log-strengths, used for the error bars
+  const information = bots.map((_, i) =>
+    bots.map((_, j) => {
+      if (i !== j) {
+        return 0;
+      }
+      const p = (strengths[i] as number) / ((strengths[i] as number) + 1);
+      return RATING_PRIOR_DRAWS * p * (1 - p);
+    }),
+  );
+  for (const { a, b, count } of pairs) {
+    const p =
+      (strengths[a] as number) /
+      ((strengths[a] as number) + (strengths[b] as number));
+    const weight = count * p * (1 - p);
+    const rowA = information[a] as number[];
+    const rowB = information[b] as number[];
+    rowA[a] = (rowA[a] as number) + weight;
+    rowB[b] = (rowB[b] as number) + weight;
+    rowA[b] = (rowA[b] as number) - weight;
+    rowB[a] = (rowB[a] as number) - weight;
+  }
+  const covariance = bots.length > 0 ? invert(information) : [];
+
+  // Error bars are relative to the field average rather than the phantom, so
+  // they reflect how well the games separate the bots from one another.
+  const n = bots.length;
+  const meanCovariance = covariance.map(
+    (row) => row.reduce((acc, v) => acc + v, 0) / n,
+  );
+  const grandMeanCovariance = meanCovariance.reduce((acc, v) => acc + v, 0) / n;
+  const variances = bots.map(
+    (_, i) =>
+      (covariance[i]?.[i] as number) -
+      2 * (meanCovariance[i] as number) +
+      grandMeanCovariance,
+  );
+
+  return bots
+    .map((bot, i) => ({
+      bot,
+      games: games[i] as number,
+      score: scores[i] as number,
+      rating: Math.round(
+        RATING_BASE + ELO_PER_LOG_STRENGTH * Math.log(strengths[i] as number),
+      ),
+      error: Math.round(
+        1.96 * ELO_PER_LOG_STRENGTH * Math.sqrt(variances[i] as number),
+      ),
+    }))
+    .toSorted((a, b) => b.rating - a.rating);
+}
@@ -0,0 +1,33 @@
+import { Chess } from "chess.js";
+import {
+  chooseMove,
+  type ReferenceMoveRequest,
+  type ReferenceMoveResponse,
+  randomGenerator,
+} from "./reference-bots";
+import { Result } from "./result";
+
+declare const self: Worker;
+
+// Searches run here rather than on the runner's event loop, so a deep
+// minimax search doesn't hold up the other games' requests and timers
+let random: (() => number) | null = null;
+
+self.onmessage = (event: MessageEvent<ReferenceMoveRequest>) => {
+  const { id, bot, fen, depth, seed } = event.data;
+  // The worker belongs to one bot, so its random choices carry on from game
+  // to game
+  random ??= randomGenerator(seed);
+  const nextRandom = random;
+  const moveResult = Result.try(() =>
+    chooseMove(bot, new Chess(fen), nextRandom, depth),
+  );
+  self.postMessage(
+    (moveResult.ok
+      ? { id, san: moveResult.data?.san ?? null }
+      : {
+          id,
+          error: moveResult.error.message,
+        }) satisfies ReferenceMoveResponse,
+  );
+};
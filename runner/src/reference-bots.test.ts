@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { Chess } from "chess.js";
+import { allocatePort, releasePort } from "./ports";
+import { chooseMove, referenceRuntime } from "./reference-bots";
+import type { BotInstance } from "./runtime";
+
+const MAX_PLIES = 200;
+
+async function requestMove(bot: BotInstance, fen: string) {
+  const response = await fetch(`http://localhost:${bot.port}/move`, {
+    method: "POST",
+    body: JSON.stringify({ fen }),
+  });
+  expect(response.status).toBe(200);
+  return response.text();
+}
+
+describe("chooseMove", () => {
+  test("minimax finds a mate in one", () => {
+    const chess = new Chess("6k1/5ppp/8/8/8/8/8/R6K w - - 0 1");
+    expect(chooseMove("minimax", chess, Math.random, 2)?.san).toBe("Ra8#");
+  });
+
+  test("greedy takes the most valuable piece", () => {
+    const chess = new Chess("k7/8/8/3q4/8/4N3/8/K2R4 w - - 0 1");
+    expect(chooseMove("greedy", chess, Math.random)?.san).toBe("Nxd5");
+  });
+});
+
+describe("referenceRuntime", () => {
+  test("rejects a depth below 1", () => {
+    expect(() =>
+      referenceRuntime("shallow", {
+        type: "reference",
+        bot: "minimax",
+        depth: 0,
+      }),
+    ).toThrow("depth of at least 1");
+  });
+
+  test("plays a game between two reference bots", async () => {
+    const white = await referenceRuntime("minimax", {
+      type: "reference",
+      bot: "minimax",
+      depth: 1,
+      seed: 1,
+    }).start(allocatePort());
+    const black = await referenceRuntime("random", {
+      type: "reference",
+      bot: "random",
+      seed: 2,
+    }).start(allocatePort());
+
+    try {
+      const chess = new Chess();
+      while (!chess.isGameOver() && chess.history().length < MAX_PLIES) {
+        const bot = chess.turn() === "w" ? white : black;
+        // Throws if the bot answers with an illegal move
+        chess.move(await requestMove(bot, chess.fen()));
+      }
+      expect(chess.history().length).toBeGreaterThan(0);
+    } finally {
+      for (const bot of [white, black]) {
+        await bot.stop();
+        releasePort(bot.port);
+      }
+    }
+  });
+});
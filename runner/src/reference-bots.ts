@@ -0,0 +1,242 @@
+import type { Chess, Move } from "chess.js";
+import { PIECE_VALUES } from "./adjudication";
+import { Result } from "./result";
+import type { BotRuntime, ReferenceRuntimeConfig } from "./runtime";
+
+export type ReferenceBot = "random" | "greedy" | "minimax";
+
+export type ReferenceMoveRequest = {
+  id: number;
+  bot: ReferenceBot;
+  fen: string;
+  depth?: number;
+  seed?: number;
+};
+
+// The move in SAN, or null if there are no legal moves
+export type ReferenceMoveResponse =
+  | { id: number; san: string | null }
+  | { id: number; error: string };
+
+const MATE_SCORE = 1000;
+
+/**
+ * A small seedable random number generator (mulberry32), so that games
+ * between reference bots can be reproduced.
+ */
+export function randomGenerator(seed?: number) {
+  if (seed === undefined) {
+    return Math.random;
+  }
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T | undefined {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Material balance from the point of view of the side to move.
+ */
+function evaluate(chess: Chess): number {
+  let score = 0;
+  for (const row of chess.board()) {
+    for (const square of row) {
+      if (square) {
+        const value = PIECE_VALUES[square.type];
+        score += square.color === chess.turn() ? value : -value;
+      }
+    }
+  }
+  return score;
+}
+
+function negamax(
+  chess: Chess,
+  depth: number,
+  alpha: number,
+  beta: number,
+): number {
+  if (chess.isCheckmate()) {
+    // Prefer quicker mates by scoring them higher at greater remaining depth
+    return -MATE_SCORE - depth;
+  }
+  if (chess.isDraw()) {
+    return 0;
+  }
+  if (depth <= 0) {
+    return evaluate(chess);
+  }
+
+  // Captures first, to make the most of the alpha-beta cutoffs
+  const moves = chess
+    .moves({ verbose: true })
+    .toSorted((a, b) => captureValue(b) - captureValue(a));
+
+  let best = Number.NEGATIVE_INFINITY;
+  for (const move of moves) {
+    chess.move(move);
+    const score = -negamax(chess, depth - 1, -beta, -alpha);
+    chess.undo();
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) {
+      break;
+    }
+  }
+  return best;
+}
+
+function captureValue(move: Move): number {
+  return move.captured
+    ? PIECE_VALUES[move.captured] * 10 - PIECE_VALUES[move.piece]
+    : 0;
+}
+
+/**
+ * Choose a move for the reference bot. Ties are broken at random so that
+ * the same position doesn't always produce the same game.
+ */
+export function chooseMove(
+  bot: ReferenceBot,
+  chess: Chess,
+  random: () => number,
+  depth = 2,
+): Move | undefined {
+  const moves = chess.moves({ verbose: true });
+
+  switch (bot) {
+    case "random":
+      return pick(moves, random);
+
+    case "greedy": {
+      // Take the most valuable piece on offer, with the cheapest attacker
+      const best = Math.max(...moves.map(captureValue));
+      return pick(
+        moves.filter((move) => captureValue(move) === best),
+        random,
+      );
+    }
+
+    case "minimax": {
+      const scored = moves.map((move) => {
+        chess.move(move);
+        const score = -negamax(
+          chess,
+          depth - 1,
+          Number.NEGATIVE_INFINITY,
+          Number.POSITIVE_INFINITY,
+        );
+        chess.undo();
+        return { move, score };
+      });
+      const best = Math.max(...scored.map(({ score }) => score));
+      return pick(
+        scored.filter(({ score }) => score === best).map(({ move }) => move),
+        random,
+      );
+    }
+  }
+}
+
+/**
+ * Serve a reference bot from the runner, speaking the same HTTP protocol as
+ * the entries. Moves are chosen in a worker thread.
+ */
+export function referenceRuntime(
+  name: string,
+  config: ReferenceRuntimeConfig,
+): BotRuntime {
+  if (
+    config.depth !== undefined &&
+    (!Number.isInteger(config.depth) || config.depth < 1)
+  ) {
+    throw new Error(
+      `Reference bot ${name} needs a depth of at least 1, got ${config.depth}`,
+    );
+  }
+
+  return {
+    async start(port) {
+      const worker = new Worker(
+        new URL("./reference-bot-worker.ts", import.meta.url).href,
+      );
+      // Moves the worker is still choosing, by request id
+      const pending = new Map<
+        number,
+        (response: ReferenceMoveResponse) => void
+      >();
+      let requestCount = 0;
+      worker.onmessage = (event: MessageEvent<ReferenceMoveResponse>) => {
+        pending.get(event.data.id)?.(event.data);
+        pending.delete(event.data.id);
+      };
+
+      const requestMove = (fen: string) =>
+        new Promise<ReferenceMoveResponse>((resolve) => {
+          requestCount++;
+          pending.set(requestCount, resolve);
+          worker.postMessage({
+            id: requestCount,
+            bot: config.bot,
+            fen,
+            depth: config.depth,
+            seed: config.seed,
+          } satisfies ReferenceMoveRequest);
+        });
+
+      const server = Bun.serve({
+        port,
+        fetch: async (request) => {
+          switch (new URL(request.url).pathname) {
+            case "/move": {
+              const { fen } = (await request.json()) as { fen: string };
+              const response = await requestMove(fen);
+              if ("error" in response) {
+                return new Response(response.error, { status: 500 });
+              }
+              return response.san
+                ? new Response(response.san)
+                : new Response("No legal moves", { status: 500 });
+            }
+            case "/info":
+              return Response.json({
+                name,
+                version: config.bot,
+                capabilities: ["reference"],
+              });
+            default:
+              return new Response();
+          }
+        },
+      });
+      console.log(`Started reference bot ${name} on port ${port}`);
+
+      return {
+        port,
+
+        async stop() {
+          await server.stop(true);
+          worker.terminate();
+          console.log(`Stopped reference bot ${name} on port ${port}`);
+        },
+
+        async status() {
+          return Result.ok({
+            running: true,
+            oomKilled: false,
+            exitCode: null,
+            signal: null,
+          });
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,409 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Chess } from "chess.js";
+import { REPORT_DIRECTORY, TOURNAMENT_NAME } from "./config";
+import type { GameOutcome } from "./game";
+import { BOARD_SCRIPT, escapeHtml, htmlPage } from "./html";
+import {
+  type GameResult,
+  getStageResults,
+  STAGES,
+  type Stage,
+} from "./outcomes";
+import { calculateRatings } from "./ratings";
+import { calculateStandings } from "./standings";
+import { readSwissState, swissByes } from "./swiss";
+
+type StageResults = { stage: Stage; results: GameResult[] };
+
+type ReportGame = GameResult & {
+  stage: Stage;
+  // Path of the game's page, relative to the report directory
+  page: string;
+};
+
+// Steps through the FENs embedded in the page, drawing each position with
+// Unicode pieces so the page works without any assets
+const REPLAYER_SCRIPT = `${BOARD_SCRIPT}
+const data = JSON.parse(document.getElementById("game-data").textContent);
+let ply = 0;
+function draw() {
+  drawBoard(document.getElementById("board"), data.fens[ply]);
+  document.getElementById("fen").textContent = data.fens[ply];
+  document.getElementById("info").textContent = ply === 0 ? "Start of the game" : data.info[ply - 1];
+  document.querySelectorAll(".moves span").forEach((span, i) => span.classList.toggle("current", i === ply - 1));
+}
+function go(target) { ply = Math.max(0, Math.min(data.fens.length - 1, target)); draw(); }
+document.getElementById("first").onclick = () => go(0);
+document.getElementById("previous").onclick = () => go(ply - 1);
+document.getElementById("next").onclick = () => go(ply + 1);
+document.getElementById("last").onclick = () => go(data.fens.length - 1);
+document.querySelectorAll(".moves span").forEach((span, i) => { span.onclick = () => go(i + 1); });
+document.addEventListener("keydown", (event) => {
+  if (event.key === "ArrowLeft") go(ply - 1);
+  if (event.key === "ArrowRight") go(ply + 1);
+});
+draw();
+`;
+
+function botSlug(bot: string) {
+  return bot.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+function botPage(bot: string) {
+  return path.join("bots", `${botSlug(bot)}.html`);
+}
+
+/**
+ * A link from one page of the report to another, so the site works when
+ * opened straight from disk.
+ */
+function href(fromPage: string, toPage: string) {
+  return path
+    .relative(path.dirname(fromPage), toPage)
+    .split(path.sep)
+    .join("/");
+}
+
+function table(headers: string[], rows: string[][]) {
+  return `<table>
+<tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join("")}</tr>
+${rows.map((row) => `<tr>${row.join("")}</tr>`).join("\n")}
+</table>`;
+}
+
+function cell(value: string | number, className?: string) {
+  const attribute = className ? ` class="${className}"` : "";
+  return `<td${attribute}>${escapeHtml(value)}</td>`;
+}
+
+function linkCell(fromPage: string, toPage: string, text: string) {
+  return `<td><a href="${escapeHtml(href(fromPage, toPage))}">${escapeHtml(text)}</a></td>`;
+}
+
+function resultText(outcome: GameOutcome) {
+  if (outcome.type === "DRAW") {
+    return "½-½";
+  }
+  return outcome.winner === outcome.players.white ? "1-0" : "0-1";
+}
+
+function botPoints(outcome: GameOutcome, bot: string) {
+  if (outcome.type === "DRAW") {
+    return 0.5;
+  }
+  return outcome.winner === bot ? 1 : 0;
+}
+
+function average(values: number[]) {
+  return values.length > 0
+    ? values.reduce((acc, v) => acc + v, 0) / values.length
+    : 0;
+}
+
+function gamesTable(fromPage: string, games: ReportGame[]) {
+  return table(
+    ["Stage", "White", "Black", "Result", "Reason", "Moves", "Game"],
+    games.map(({ stage, outcome, page: gamePage }) => [
+      cell(stage.label),
+      linkCell(fromPage, botPage(outcome.players.white), outcome.players.white),
+      linkCell(fromPage, botPage(outcome.players.black), outcome.players.black),
+      cell(resultText(outcome)),
+      cell(outcome.reason),
+      cell(outcome.moves.length, "number"),
+      linkCell(fromPage, gamePage, "Replay"),
+    ]),
+  );
+}
+
+/**
+ * Points scored by each bot against each other bot, summed over every game
+ * of the stage.
+ */
+function crosstable(fromPage: string, results: GameResult[], bots: string[]) {
+  const scores = new Map<string, number>();
+  const played = new Set<string>();
+  for (const { outcome } of results) {
+    const { white, black } = outcome.players;
+    for (const [bot, opponent] of [
+      [white, black],
+      [black, white],
+    ] as const) {
+      const key = `${bot}\n${opponent}`;
+      scores.set(key, (scores.get(key) ?? 0) + botPoints(outcome, bot));
+      played.add(key);
+    }
+  }
+
+  return table(
+    ["", ...bots],
+    bots.map((bot) => [
+      linkCell(fromPage, botPage(bot), bot),
+      ...bots.map((opponent) => {
+        if (bot === opponent) {
+          return cell("", "self");
+        }
+        const key = `${bot}\n${opponent}`;
+        return cell(played.has(key) ? (scores.get(key) ?? 0) : "", "number");
+      }),
+    ]),
+  );
+}
+
+async function stageSection(
+  { stage, results }: StageResults,
+  games: ReportGame[],
+) {
+  const byes =
+    stage.name === "swiss" ? swissByes(await readSwissState()) : undefined;
+  const standings = calculateStandings(
+    results.map(({ outcome }) => outcome),
+    undefined,
+    byes,
+  );
+  const fromPage = "index.html";
+
+  return `<h2>${escapeHtml(stage.label)}</h2>
+${table(
+  ["Rank", "Bot", "Points", "Wins", "Draws", "Losses"],
+  standings.map(({ rank, bot, points, wins, draws, losses }) => [
+    cell(rank, "number"),
+    linkCell(fromPage, botPage(bot), bot),
+    cell(points, "number"),
+    cell(wins, "number"),
+    cell(draws, "number"),
+    cell(losses, "number"),
+  ]),
+)}
+<h3>Crosstable</h3>
+${crosstable(
+  fromPage,
+  results,
+  standings.map(({ bot }) => bot),
+)}
+<details>
+<summary>${games.length} games</summary>
+${gamesTable(fromPage, games)}
+</details>`;
+}
+
+function botReport(bot: string, games: ReportGame[]) {
+  const fromPage = botPage(bot);
+  const ownGames = games.filter(
+    ({ outcome }) =>
+      outcome.players.white === bot || outcome.players.black === bot,
+  );
+
+  const moveTimes = ownGames.flatMap(({ outcome }) =>
+    outcome.moves
+      .filter(
+        (move) =>
+          (move.color === "w"
+            ? outcome.players.white
+            : outcome.players.black) === bot,
+      )
+      .map((move) => move.durationMs),
+  );
+
+  // Errors are only kept for the side that forfeited
+  const errorCounts = new Map<string, number>();
+  const forfeits = new Map<string, number>();
+  for (const { outcome } of ownGames) {
+    if (outcome.type === "WIN" && outcome.winner !== bot) {
+      if ("opponentErrors" in outcome) {
+        forfeits.set(outcome.reason, (forfeits.get(outcome.reason) ?? 0) + 1);
+        for (const error of outcome.opponentErrors) {
+          errorCounts.set(error.type, (errorCounts.get(error.type) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  const sortedTimes = moveTimes.toSorted((a, b) => a - b);
+  const percentile = (p: number) =>
+    sortedTimes[
+      Math.min(sortedTimes.length - 1, Math.floor(p * sortedTimes.length))
+    ] ?? 0;
+
+  return htmlPage(
+    `${bot} - ${TOURNAMENT_NAME}`,
+    `<p><a href="${href(fromPage, "index.html")}">Back to the standings</a></p>
+<h1>${escapeHtml(bot)}</h1>
+<h2>Move times</h2>
+${table(
+  [
+    "Moves",
+    "Average (ms)",
+    "Median (ms)",
+    "95th percentile (ms)",
+    "Slowest (ms)",
+  ],
+  [
+    [
+      cell(moveTimes.length, "number"),
+      cell(Math.round(average(moveTimes)), "number"),
+      cell(Math.round(percentile(0.5)), "number"),
+      cell(Math.round(percentile(0.95)), "number"),
+      cell(Math.round(sortedTimes.at(-1) ?? 0), "number"),
+    ],
+  ],
+)}
+<h2>Forfeits</h2>
+${
+  forfeits.size > 0
+    ? table(
+        ["Reason", "Games"],
+        [...forfeits].map(([reason, count]) => [
+          cell(reason),
+          cell(count, "number"),
+        ]),
+      )
+    : "<p>None</p>"
+}
+<h2>Errors in forfeited games</h2>
+${
+  errorCounts.size > 0
+    ? table(
+        ["Error", "Count"],
+        [...errorCounts].map(([type, count]) => [
+          cell(type),
+          cell(count, "number"),
+        ]),
+      )
+    : "<p>None</p>"
+}
+<h2>Games</h2>
+${gamesTable(fromPage, ownGames)}`,
+  );
+}
+
+function moveNumber(before: string, color: "w" | "b", index: number) {
+  // The full move number is the last field of the FEN
+  const fullMove = before.split(" ")[5];
+  if (color === "w") {
+    return `${fullMove}.`;
+  }
+  return index === 0 ? `${fullMove}...` : "";
+}
+
+/**
+ * A page that replays one game. The positions come from the FENs saved with
+ * each move, starting from the position the bots were given.
+ */
+function gameReport({ stage, outcome, page: gamePage }: ReportGame) {
+  let fens = [outcome.moves[0]?.before ?? ""];
+  if (outcome.moves.length === 0) {
+    const chess = new Chess();
+    chess.loadPgn(outcome.pgn, { strict: false });
+    fens = [chess.fen()];
+  }
+  fens.push(...outcome.moves.map((move) => move.after));
+  const info = outcome.moves.map((move) => {
+    const mover =
+      move.color === "w" ? outcome.players.white : outcome.players.black;
+    return `${move.san} by ${mover} in ${Math.round(move.durationMs)}ms`;
+  });
+  // Keep the embedded JSON from closing the script element early
+  const data = JSON.stringify({ fens, info }).replaceAll("<", "\\u003c");
+
+  const { white, black } = outcome.players;
+  return htmlPage(
+    `${white} vs ${black} - ${TOURNAMENT_NAME}`,
+    `<p><a href="${href(gamePage, "index.html")}">Back to the standings</a></p>
+<h1><a href="${href(gamePage, botPage(white))}">${escapeHtml(white)}</a> vs <a href="${href(gamePage, botPage(black))}">${escapeHtml(black)}</a></h1>
+<p>${escapeHtml(stage.label)}: ${escapeHtml(resultText(outcome))} (${escapeHtml(outcome.reason)})${outcome.timeControl ? `, ${escapeHtml(outcome.timeControl)}` : ""}</p>
+<table class="board" id="board"></table>
+<p>
+<button id="first">|&lt;</button>
+<button id="previous">&lt;</button>
+<button id="next">&gt;</button>
+<button id="last">&gt;|</button>
+</p>
+<p id="info"></p>
+<p><code id="fen"></code></p>
+<p class="moves">${outcome.moves
+      .map(
+        (move, i) =>
+          `${moveNumber(move.before, move.color, i)}<span>${escapeHtml(move.san)}</span>`,
+      )
+      .join(" ")}</p>
+<script type="application/json" id="game-data">${data}</script>
+<script>${REPLAYER_SCRIPT}</script>`,
+  );
+}
+
+async function writePage(relativePath: string, html: string) {
+  const filePath = path.join(REPORT_DIRECTORY, relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await Bun.write(filePath, html);
+}
+
+async function main() {
+  const stages: StageResults[] = [];
+  for (const stage of STAGES) {
+    const results = await getStageResults(stage);
+    if (results.length > 0) {
+      stages.push({ stage, results });
+    }
+  }
+
+  const games: ReportGame[] = stages.flatMap(({ stage, results }) =>
+    results
+      .toSorted((a, b) => a.filePath.localeCompare(b.filePath))
+      .map((result) => ({
+        ...result,
+        stage,
+        page: path.join(
+          "games",
+          stage.name,
+          path
+            .relative(stage.directory, result.filePath)
+            .replace(/\.json$/, ".html"),
+        ),
+      })),
+  );
+
+  const sections: string[] = [];
+  for (const stageResults of stages) {
+    sections.push(
+      await stageSection(
+        stageResults,
+        games.filter(({ stage }) => stage === stageResults.stage),
+      ),
+    );
+  }
+
+  const ratings = calculateRatings(games.map(({ outcome }) => outcome));
+  await writePage(
+    "index.html",
+    htmlPage(
+      TOURNAMENT_NAME,
+      `<h1>${escapeHtml(TOURNAMENT_NAME)}</h1>
+${sections.join("\n")}
+<h2>Ratings</h2>
+${table(
+  ["Bot", "Rating", "±", "Games", "Score"],
+  ratings.map(({ bot, rating, error, games: played, score }) => [
+    linkCell("index.html", botPage(bot), bot),
+    cell(rating, "number"),
+    cell(error, "number"),
+    cell(played, "number"),
+    cell(score, "number"),
+  ]),
+)}`,
+    ),
+  );
+
+  for (const { bot } of ratings) {
+    await writePage(botPage(bot), botReport(bot, games));
+  }
+  for (const game of games) {
+    await writePage(game.page, gameReport(game));
+  }
+
+  console.log(
+    `Wrote report for ${games.length} games to ${path.join(REPORT_DIRECTORY, "index.html")}`,
+  );
+}
+
+await main();
@@ -0,0 +1,92 @@
+import { dockerRuntime } from "./docker-runtime";
+import { processRuntime } from "./process-runtime";
+import { type ReferenceBot, referenceRuntime } from "./reference-bots";
+import type { Result } from "./result";
+import { uciRuntime } from "./uci-runtime";
+
+export type BotStatus = {
+  running: boolean;
+  oomKilled: boolean;
+  // Null when the bot was killed by a signal
+  exitCode: number | null;
+  signal: string | null;
+};
+
+/**
+ * A running copy of a bot, answering the HTTP protocol on a local port.
+ */
+export interface BotInstance {
+  port: number;
+  stop(): Promise<void>;
+  // Used to explain failed requests, e.g. if the bot crashed or ran out of
+  // memory
+  status(): Promise<Result<BotStatus>>;
+}
+
+/**
+ * Starts copies of a bot. A bot can be in several games at once, or play
+ * itself, so every game starts its own instance on its own port.
+ */
+export interface BotRuntime {
+  start(port: number): Promise<BotInstance>;
+}
+
+export type ProcessRuntimeConfig = {
+  type: "process";
+  // Command and arguments. "{port}" is replaced with the port to listen on,
+  // which is also passed in the PORT environment variable.
+  command: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+};
+
+export type UciRuntimeConfig = {
+  type: "uci";
+  // Command and arguments to start the engine
+  command: string[];
+  cwd?: string;
+  // Sent to the engine with setoption before every game
+  options?: Record<string, string | number | boolean>;
+  // Fixed thinking time per move, used when games aren't played on a clock
+  movetimeMs?: number;
+};
+
+export type ReferenceRuntimeConfig = {
+  type: "reference";
+  bot: ReferenceBot;
+  // Search depth for the minimax bot
+  depth?: number;
+  // Makes the bot's random choices reproducible
+  seed?: number;
+};
+
+export type RuntimeConfig =
+  | { type: "docker" }
+  | ProcessRuntimeConfig
+  | UciRuntimeConfig
+  | ReferenceRuntimeConfig;
+
+export type Entry = {
+  name: string;
+  repo?: string;
+  commit?: string;
+  // Defaults to building the repo's Dockerfile
+  runtime?: RuntimeConfig;
+  // Overrides MAX_CONCURRENT_GAMES_PER_BOT, e.g. for bots that use a lot of
+  // memory
+  maxConcurrentGames?: number;
+};
+
+export function createRuntime(entry: Entry): BotRuntime {
+  const config = entry.runtime ?? { type: "docker" };
+  switch (config.type) {
+    case "docker":
+      return dockerRuntime(entry.name);
+    case "process":
+      return processRuntime(entry.name, config);
+    case "uci":
+      return uciRuntime(entry.name, config);
+    case "reference":
+      return referenceRuntime(entry.name, config);
+  }
+}
@@ -0,0 +1,123 @@
+import type { GameOutcome, Players } from "./game";
+import { Result } from "./result";
+
+export type GameJob = {
+  players: Players;
+  pgnPath: string;
+  saveDir: string;
+};
+
+export type SchedulerOptions = {
+  // Number of games that can be played at once
+  slots: number;
+  // Number of instances of a bot that can be running at once
+  botLimit: (name: string) => number;
+  // Checked when a job comes up, e.g. to drop games of a withdrawn bot
+  skip?: (job: GameJob) => boolean;
+};
+
+export type ScheduleReport = {
+  outcomes: GameOutcome[];
+  failures: { job: GameJob; error: Error }[];
+  skipped: GameJob[];
+};
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  }
+  return `${seconds}s`;
+}
+
+/**
+ * Play every job, starting the next game as soon as a slot frees up rather
+ * than waiting for a whole batch. Jobs are taken in order, except that a job
+ * is passed over while either of its bots is at its concurrency limit.
+ *
+ * A failed game doesn't stop the others, so every job ends up in one of the
+ * report's lists.
+ */
+export async function runGames(
+  jobs: GameJob[],
+  play: (job: GameJob) => Promise<Result<GameOutcome>>,
+  { slots, botLimit, skip = () => false }: SchedulerOptions,
+): Promise<ScheduleReport> {
+  const queue = [...jobs];
+  const report: ScheduleReport = { outcomes: [], failures: [], skipped: [] };
+  const instances = new Map<string, number>();
+  const running = new Set<Promise<void>>();
+  const startTime = performance.now();
+
+  const canStart = ({ players }: GameJob) => {
+    // Always let something run, even if a self-play game needs more
+    // instances than its bot's limit
+    if (running.size === 0) {
+      return true;
+    }
+    const needed = players.white === players.black ? 2 : 1;
+    return [players.white, players.black].every(
+      (name) => (instances.get(name) ?? 0) + needed <= botLimit(name),
+    );
+  };
+
+  const track = ({ players }: GameJob, change: number) => {
+    for (const name of [players.white, players.black]) {
+      instances.set(name, (instances.get(name) ?? 0) + change);
+    }
+  };
+
+  const reportProgress = () => {
+    const finished =
+      report.outcomes.length + report.failures.length + report.skipped.length;
+    const elapsedMs = performance.now() - startTime;
+    const remaining = jobs.length - finished;
+    const etaMs = (elapsedMs / finished) * remaining;
+    console.log(
+      `Progress: ${finished}/${jobs.length} games (${report.failures.length} failed, ${report.skipped.length} skipped), elapsed ${formatDuration(elapsedMs)}, ETA ${remaining > 0 ? formatDuration(etaMs) : "done"}`,
+    );
+  };
+
+  while (true) {
+    while (running.size < slots) {
+      const index = queue.findIndex(canStart);
+      if (index === -1) {
+        break;
+      }
+      const [job] = queue.splice(index, 1) as [GameJob];
+      if (skip(job)) {
+        report.skipped.push(job);
+        reportProgress();
+        continue;
+      }
+      track(job, 1);
+
+      const task: Promise<void> = Result.tryAsync(() => play(job))
+        .then(Result.flatten)
+        .then((result) => {
+          track(job, -1);
+          if (result.ok) {
+            report.outcomes.push(result.data);
+          } else {
+            report.failures.push({ job, error: result.error });
+          }
+          reportProgress();
+        })
+        .finally(() => running.delete(task));
+      running.add(task);
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+    await Promise.race(running);
+  }
+
+  return report;
+}
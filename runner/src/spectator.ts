@@ -0,0 +1,292 @@
+import type { Server } from "bun";
+import type { Color } from "chess.js";
+import type { GameOutcome, MoveError, Players } from "./game";
+import { BOARD_SCRIPT, escapeHtml, htmlPage } from "./html";
+import type { Result } from "./result";
+
+export type SpectatorEvent =
+  | { type: "start"; players: Players; fen: string }
+  | {
+      type: "move";
+      color: Color;
+      san: string;
+      lan: string;
+      fen: string;
+      durationMs: number;
+      clockMs?: number;
+      // Errors on the way to the move, e.g. invalid moves that were retried
+      errors: MoveError[];
+    }
+  | {
+      type: "end";
+      result: GameOutcome["type"] | "ERROR";
+      reason: string;
+      winner: string | null;
+      errors: MoveError[];
+    };
+
+export type GameSummary = {
+  id: string;
+  players: Players;
+  fen: string;
+  moves: number;
+  startedAt: string;
+};
+
+type LiveGame = GameSummary & {
+  // Every event so far, so spectators who join late can catch up
+  events: SpectatorEvent[];
+  streams: Set<ReadableStreamDefaultController<string>>;
+};
+
+/**
+ * Reports one game's progress to the spectator server.
+ */
+export type SpectatedGame = {
+  start(fen: string): void;
+  move(event: Omit<Extract<SpectatorEvent, { type: "move" }>, "type">): void;
+  end(result: Result<GameOutcome>): void;
+};
+
+let server: Server | null = null;
+let gameCount = 0;
+const liveGames = new Map<string, LiveGame>();
+
+function send(
+  stream: ReadableStreamDefaultController<string>,
+  event: SpectatorEvent,
+) {
+  stream.enqueue(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+function publish(game: LiveGame, event: SpectatorEvent) {
+  game.events.push(event);
+  for (const stream of game.streams) {
+    send(stream, event);
+  }
+}
+
+function summary({ id, players, fen, moves, startedAt }: LiveGame) {
+  return { id, players, fen, moves, startedAt };
+}
+
+/**
+ * Start following a game. Does nothing unless the spectator server is
+ * running.
+ */
+export function spectateGame(players: Players): SpectatedGame {
+  if (!server) {
+    return { start() {}, move() {}, end() {} };
+  }
+
+  gameCount++;
+  const game: LiveGame = {
+    id: `${gameCount}-${players.white}-${players.black}`,
+    players,
+    fen: "",
+    moves: 0,
+    startedAt: new Date().toISOString(),
+    events: [],
+    streams: new Set(),
+  };
+
+  return {
+    start(fen) {
+      game.fen = fen;
+      liveGames.set(game.id, game);
+      publish(game, { type: "start", players, fen });
+    },
+    move(event) {
+      game.fen = event.fen;
+      game.moves++;
+      publish(game, { type: "move", ...event });
+    },
+    end(result) {
+      if (!liveGames.has(game.id)) {
+        return;
+      }
+      publish(
+        game,
+        result.ok
+          ? {
+              type: "end",
+              result: result.data.type,
+              reason: result.data.reason,
+              winner: result.data.type === "WIN" ? result.data.winner : null,
+              errors:
+                "opponentErrors" in result.data
+                  ? result.data.opponentErrors
+                  : [],
+            }
+          : {
+              type: "end",
+              result: "ERROR",
+              reason: result.error.message,
+              winner: null,
+              errors: [],
+            },
+      );
+      for (const stream of game.streams) {
+        stream.close();
+      }
+      liveGames.delete(game.id);
+    },
+  };
+}
+
+/**
+ * Stream a game's events as Server-Sent Events, starting with the ones
+ * that have already happened.
+ */
+function eventStream(game: LiveGame) {
+  let controller: ReadableStreamDefaultController<string>;
+  const stream = new ReadableStream<string>({
+    start(streamController) {
+      controller = streamController;
+      for (const event of game.events) {
+        send(controller, event);
+      }
+      game.streams.add(controller);
+    },
+    cancel() {
+      game.streams.delete(controller);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+const LOBBY_SCRIPT = `
+async function refresh() {
+  const games = await (await fetch("/games")).json();
+  const list = document.getElementById("games");
+  list.innerHTML = "";
+  for (const game of games) {
+    const item = document.createElement("li");
+    const link = document.createElement("a");
+    link.href = "/games/" + encodeURIComponent(game.id);
+    link.textContent = game.players.white + " vs " + game.players.black + " (" + game.moves + " moves)";
+    item.append(link);
+    list.append(item);
+  }
+  document.getElementById("empty").hidden = games.length > 0;
+}
+refresh();
+setInterval(refresh, 2000);
+`;
+
+function lobbyPage() {
+  return htmlPage(
+    "Live games",
+    `<h1>Live games</h1>
+<p id="empty">No games are being played right now.</p>
+<ul id="games"></ul>
+<script>${LOBBY_SCRIPT}</script>`,
+  );
+}
+
+const GAME_SCRIPT = `${BOARD_SCRIPT}
+const board = document.getElementById("board");
+const log = document.getElementById("log");
+function line(text) {
+  const item = document.createElement("li");
+  item.textContent = text;
+  log.prepend(item);
+}
+const source = new EventSource(location.pathname + "/events");
+source.onmessage = (message) => {
+  const event = JSON.parse(message.data);
+  if (event.type === "start") {
+    drawBoard(board, event.fen);
+    line("Game started");
+  } else if (event.type === "move") {
+    drawBoard(board, event.fen);
+    const errors = event.errors.map((error) => error.type).join(", ");
+    line(event.san + " in " + Math.round(event.durationMs) + "ms" + (errors ? " after " + errors : ""));
+  } else if (event.type === "end") {
+    source.close();
+    const errors = event.errors.map((error) => error.type).join(", ");
+    line(event.result + " " + event.reason + (event.winner ? ", " + event.winner + " wins" : "") + (errors ? " after " + errors : ""));
+  }
+  if (event.fen) {
+    document.getElementById("fen").textContent = event.fen;
+  }
+};
+`;
+
+function gamePage(game: LiveGame) {
+  const { white, black } = game.players;
+  return htmlPage(
+    `${white} vs ${black}`,
+    `<p><a href="/">All live games</a></p>
+<h1>${escapeHtml(white)} vs ${escapeHtml(black)}</h1>
+<table class="board" id="board"></table>
+<p><code id="fen"></code></p>
+<ul id="log"></ul>
+<script>${GAME_SCRIPT}</script>`,
+  );
+}
+
+function html(body: string) {
+  return new Response(body, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
+/**
+ * Serve the games in progress on a local port: a page listing them, a board
+ * page per game and the events behind it.
+ *
+ * - `GET /games` lists the running games as JSON
+ * - `GET /games/:id/events` streams a game's moves as Server-Sent Events
+ */
+export function startSpectatorServer(port: number) {
+  server = Bun.serve({
+    // Only for watching from this machine
+    hostname: "127.0.0.1",
+    port,
+    // Event streams stay open for the whole game
+    idleTimeout: 0,
+    routes: {
+      "/": () => html(lobbyPage()),
+      "/games": () =>
+        Response.json([...liveGames.values()].map((game) => summary(game))),
+      "/games/:id": (req) => {
+        const game = liveGames.get(req.params.id);
+        return game
+          ? html(gamePage(game))
+          : new Response(null, { status: 404 });
+      },
+      "/games/:id/events": (req) => {
+        const game = liveGames.get(req.params.id);
+        return game ? eventStream(game) : new Response(null, { status: 404 });
+      },
+    },
+    fetch: () => new Response(null, { status: 404 }),
+  });
+  console.log(`Spectator server listening on ${server.url}`);
+}
+
+/**
+ * Stop the spectator server, if it's running, closing any open event
+ * streams.
+ */
+export async function stopSpectatorServer() {
+  if (!server) {
+    return;
+  }
+  const stopping = server;
+  server = null;
+  for (const game of liveGames.values()) {
+    for (const stream of game.streams) {
+      stream.close();
+    }
+  }
+  liveGames.clear();
+  await stopping.stop(true);
+}
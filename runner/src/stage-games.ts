@@ -0,0 +1,61 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import {
+  NUM_FINALS_GAMES,
+  PGN_DIRECTORY,
+  ROUND_ROBIN_STARTING_POSITIONS,
+} from "./config";
+import type { Players } from "./game";
+
+// Which games make up each stage: the pairs of players and the starting
+// positions they play from.
+
+export function permutations(array: string[]): [string, string][] {
+  return array.reduce(
+    (acc, v, i) =>
+      acc.concat(array.slice(i + 1).map((w) => [v, w] as [string, string])),
+    [] as [string, string][],
+  );
+}
+
+export async function listPgnFiles() {
+  const files = await fs.readdir(PGN_DIRECTORY);
+  return files.toSorted().map((file) => path.join(PGN_DIRECTORY, file));
+}
+
+export async function getRoundRobinPgns() {
+  return (await listPgnFiles()).slice(0, ROUND_ROBIN_STARTING_POSITIONS);
+}
+
+export async function getThirdPlaceGames() {
+  const files = await listPgnFiles();
+  return files.slice(
+    files.length - 2 * NUM_FINALS_GAMES,
+    files.length - NUM_FINALS_GAMES,
+  );
+}
+
+export async function getFinalsGames() {
+  const files = await listPgnFiles();
+  return files.slice(files.length - NUM_FINALS_GAMES);
+}
+
+/**
+ * The name of a game's result file, after its players and the number of its
+ * starting position.
+ */
+export function resultFileName(players: Players, pgnPath: string) {
+  const pgnNumber = pgnPath.split(path.sep).pop()?.split("-")[0] as string;
+  return `${players.white}-${players.black}-${pgnNumber}.json`;
+}
+
+export async function readStagePlayers(file: string) {
+  return (await Bun.file(file).json()) as [string, string];
+}
+
+export async function writeStagePlayers(
+  file: string,
+  players: [string, string],
+) {
+  await Bun.file(file).write(JSON.stringify(players));
+}
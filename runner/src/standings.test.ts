@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import type { GameOutcome } from "./game";
+import {
+  calculatePoints,
+  calculateStandings,
+  type Tiebreak,
+} from "./standings";
+
+function win(white: string, black: string, winner: string): GameOutcome {
+  return {
+    type: "WIN",
+    winner,
+    reason: "CHECKMATE",
+    players: { white, black },
+    pgn: "",
+    durationMs: 0,
+    moves: [],
+  };
+}
+
+function draw(white: string, black: string): GameOutcome {
+  return {
+    type: "DRAW",
+    reason: "STALEMATE",
+    players: { white, black },
+    pgn: "",
+    durationMs: 0,
+    moves: [],
+  };
+}
+
+function ranking(outcomes: GameOutcome[], tiebreaks?: readonly Tiebreak[]) {
+  return calculateStandings(outcomes, tiebreaks).map(({ bot }) => bot);
+}
+
+describe("calculatePoints", () => {
+  test("tallies results and awards byes", () => {
+    const totals = calculatePoints([win("a", "b", "a"), draw("b", "c")], ["c"]);
+    expect(totals).toContainEqual({
+      bot: "a",
+      wins: 1,
+      draws: 0,
+      losses: 0,
+      points: 1,
+    });
+    expect(totals).toContainEqual({
+      bot: "c",
+      wins: 0,
+      draws: 1,
+      losses: 0,
+      points: 1.5,
+    });
+  });
+});
+
+describe("calculateStandings", () => {
+  test("ranks by points", () => {
+    expect(ranking([win("a", "b", "b"), win("b", "c", "b")])).toEqual([
+      "b",
+      "a",
+      "c",
+    ]);
+  });
+
+  test("breaks ties with Sonneborn-Berger", () => {
+    // a, b and c each have a point, but a beat the strongest opponent
+    const outcomes = [
+      win("a", "c", "a"),
+      win("b", "d", "b"),
+      win("c", "d", "c"),
+    ];
+    expect(ranking(outcomes, ["SONNEBORN_BERGER"])).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+  });
+
+  test("breaks ties with the direct encounter", () => {
+    const outcomes = [win("c", "b", "b"), win("a", "b", "a")];
+    expect(ranking(outcomes, ["DIRECT_ENCOUNTER"])).toEqual(["a", "b", "c"]);
+  });
+
+  test("breaks ties with wins as black", () => {
+    const outcomes = [win("c", "b", "b"), win("a", "c", "a")];
+    expect(ranking(outcomes, ["BLACK_WINS"])).toEqual(["b", "a", "c"]);
+  });
+
+  test("orders bots by name once every tiebreak is level", () => {
+    const outcomes = [win("b", "c", "b"), win("a", "c", "a")];
+    expect(ranking(outcomes, [])).toEqual(["a", "b", "c"]);
+  });
+
+  test("counts byes towards points and ranks", () => {
+    const standings = calculateStandings([win("a", "b", "a")], [], ["b"]);
+    expect(standings).toMatchObject([
+      { rank: 1, bot: "a", points: 1 },
+      { rank: 2, bot: "b", points: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  POINTS_PER_BYE,
+  POINTS_PER_DRAW,
+  POINTS_PER_LOSS,
+  POINTS_PER_WIN,
+  TIEBREAKS,
+} from "./config";
+import type { GameOutcome } from "./game";
+
+export type Tiebreak =
+  | "SONNEBORN_BERGER"
+  | "DIRECT_ENCOUNTER"
+  | "WINS"
+  | "BUCHHOLZ"
+  | "BLACK_WINS";
+
+export type PointTotals = {
+  bot: string;
+  wins: number;
+  draws: number;
+  losses: number;
+  points: number;
+};
+
+export type Standing = { rank: number } & PointTotals &
+  Partial<Record<TiebreakColumn, number>>;
+
+type TiebreakColumn =
+  | "sonnebornBerger"
+  | "directEncounter"
+  | "buchholz"
+  | "blackWins";
+
+const TIEBREAK_COLUMNS: Record<Tiebreak, TiebreakColumn | "wins"> = {
+  SONNEBORN_BERGER: "sonnebornBerger",
+  DIRECT_ENCOUNTER: "directEncounter",
+  WINS: "wins",
+  BUCHHOLZ: "buchholz",
+  BLACK_WINS: "blackWins",
+};
+
+type GameScore = {
+  bot: string;
+  opponent: string;
+  colour: "white" | "black";
+  result: "WIN" | "DRAW" | "LOSS";
+  points: number;
+};
+
+/**
+ * Split each outcome into one entry per player, holding the points they
+ * earned from that game.
+ */
+function gameScores(outcomes: GameOutcome[]): GameScore[] {
+  return outcomes.flatMap((outcome): GameScore[] => {
+    const { white, black } = outcome.players;
+    if (outcome.type === "DRAW") {
+      return [
+        {
+          bot: white,
+          opponent: black,
+          colour: "white",
+          result: "DRAW",
+          points: POINTS_PER_DRAW,
+        },
+        {
+          bot: black,
+          opponent: white,
+          colour: "black",
+          result: "DRAW",
+          points: POINTS_PER_DRAW,
+        },
+      ];
+    }
+
+    const whiteWon = outcome.winner === white;
+    return [
+      {
+        bot: white,
+        opponent: black,
+        colour: "white",
+        result: whiteWon ? "WIN" : "LOSS",
+        points: whiteWon ? POINTS_PER_WIN : POINTS_PER_LOSS,
+      },
+      {
+        bot: black,
+        opponent: white,
+        colour: "black",
+        result: whiteWon ? "LOSS" : "WIN",
+        points: whiteWon ? POINTS_PER_LOSS : POINTS_PER_WIN,
+      },
+    ];
+  });
+}
+
+function emptyTotals(bot: string): PointTotals {
+  return {
+    bot,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    points: 0,
+  };
+}
+
+/**
+ * Tally wins, draws, losses and points for each bot. `byes` lists the bots
+ * that sat out a round, once per round, and are awarded `POINTS_PER_BYE`.
+ */
+export function calculatePoints(
+  outcomes: GameOutcome[],
+  byes: string[] = [],
+): Array<PointTotals> {
+  const totals: Record<string, PointTotals> = {};
+
+  for (const bot of byes) {
+    totals[bot] ??= emptyTotals(bot);
+    totals[bot].points += POINTS_PER_BYE;
+  }
+
+  for (const { bot, result, points } of gameScores(outcomes)) {
+    totals[bot] ??= emptyTotals(bot);
+
+    if (result === "WIN") {
+      totals[bot].wins += 1;
+    } else if (result === "DRAW") {
+      totals[bot].draws += 1;
+    } else {
+      totals[bot].losses += 1;
+    }
+    totals[bot].points += points;
+  }
+
+  return Object.values(totals).toSorted((a, b) => b.points - a.points);
+}
+
+function tiebreakValue(
+  tiebreak: Exclude<Tiebreak, "WINS">,
+  bot: string,
+  scores: GameScore[],
+  totals: Record<string, PointTotals>,
+): number {
+  const ownGames = scores.filter((score) => score.bot === bot);
+  const pointsOf = (name: string) => totals[name]?.points ?? 0;
+
+  switch (tiebreak) {
+    case "SONNEBORN_BERGER":
+      // Each opponent's final score, weighted by the result against them
+      return ownGames.reduce(
+        (acc, game) =>
+          acc + (game.points / POINTS_PER_WIN) * pointsOf(game.opponent),
+        0,
+      );
+    case "DIRECT_ENCOUNTER":
+      // Points scored only against the bots tied on points with this one
+      return ownGames
+        .filter((game) => pointsOf(game.opponent) === pointsOf(bot))
+        .reduce((acc, game) => acc + game.points, 0);
+    case "BUCHHOLZ":
+      return ownGames.reduce((acc, game) => acc + pointsOf(game.opponent), 0);
+    case "BLACK_WINS":
+      return ownGames.filter(
+        (game) => game.result === "WIN" && game.colour === "black",
+      ).length;
+  }
+}
+
+/**
+ * Calculate the standings for a stage, breaking ties on points with the
+ * given tiebreaks in order. Bots still level after every tiebreak are
+ * ordered by name so the ranking is always deterministic.
+ */
+export function calculateStandings(
+  outcomes: GameOutcome[],
+  tiebreaks: readonly Tiebreak[] = TIEBREAKS,
+  byes: string[] = [],
+): Standing[] {
+  const scores = gameScores(outcomes);
+  const pointTotals = calculatePoints(outcomes, byes);
+  const totals = Object.fromEntries(
+    pointTotals.map((total) => [total.bot, total]),
+  );
+
+  const rows = pointTotals.map((total) => {
+    const row: Omit<Standing, "rank"> = { ...total };
+    for (const tiebreak of tiebreaks) {
+      if (tiebreak !== "WINS") {
+        row[TIEBREAK_COLUMNS[tiebreak] as TiebreakColumn] = tiebreakValue(
+          tiebreak,
+          total.bot,
+          scores,
+          totals,
+        );
+      }
+    }
+    return row;
+  });
+
+  return rows
+    .toSorted((a, b) => {
+      if (a.points !== b.points) {
+        return b.points - a.points;
+      }
+      for (const tiebreak of tiebreaks) {
+        const column = TIEBREAK_COLUMNS[tiebreak];
+        const difference = (b[column] ?? 0) - (a[column] ?? 0);
+        if (difference !== 0) {
+          return difference;
+        }
+      }
+      return a.bot.localeCompare(b.bot);
+    })
+    .map((row, i) => ({ rank: i + 1, ...row }));
+}
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { randomGenerator } from "./reference-bots";
+import { maxSwissRounds, pairSwissRound, type SwissRound } from "./swiss";
+
+const TRIALS = 50;
+
+function round(number: number, pairings: [string, string][]): SwissRound {
+  return {
+    round: number,
+    opening: "00.pgn",
+    pairings: pairings.map(([white, black]) => ({ white, black })),
+    bye: null,
+  };
+}
+
+function pairKey(a: string, b: string) {
+  return [a, b].toSorted().join(" v ");
+}
+
+describe("maxSwissRounds", () => {
+  test("is one round fewer than the field when it's even", () => {
+    expect(maxSwissRounds(6)).toBe(5);
+    expect(maxSwissRounds(8)).toBe(7);
+  });
+
+  test("adds a round for byes when the field is odd", () => {
+    expect(maxSwissRounds(7)).toBe(7);
+  });
+});
+
+describe("pairSwissRound", () => {
+  test("pairs closest ranked bots that haven't met", () => {
+    const pairing = pairSwissRound(
+      ["a", "b", "c", "d"],
+      [round(1, [["a", "b"]])],
+    );
+    expect(pairing.rematches).toBe(0);
+    expect(
+      pairing.pairings.map(({ white, black }) => pairKey(white, black)),
+    ).toEqual(["a v c", "b v d"]);
+  });
+
+  test("gives the bye to the lowest ranked bot without one", () => {
+    const pairing = pairSwissRound(
+      ["a", "b", "c"],
+      [{ ...round(1, [["a", "b"]]), bye: "c" }],
+    );
+    expect(pairing.bye).toBe("b");
+  });
+
+  test("falls back to the fewest rematches when none can be avoided", () => {
+    // a and c have both played everyone but b, so one of them has to play
+    // someone again
+    const pairing = pairSwissRound(
+      ["a", "b", "c", "d", "e", "f"],
+      [
+        round(1, [["a", "c"]]),
+        round(2, [
+          ["a", "d"],
+          ["c", "e"],
+        ]),
+        round(3, [
+          ["a", "e"],
+          ["c", "d"],
+        ]),
+        round(4, [["a", "f"]]),
+        round(5, [["c", "f"]]),
+      ],
+    );
+    expect(pairing.rematches).toBe(1);
+    expect(pairing.pairings).toHaveLength(3);
+  });
+
+  for (const bots of [6, 7, 8]) {
+    test(`pairs every round of a stage with random results for ${bots} bots`, () => {
+      const random = randomGenerator(bots);
+      const names = Array.from({ length: bots }, (_, i) => `bot${i}`);
+
+      for (let trial = 0; trial < TRIALS; trial++) {
+        const points = new Map(names.map((name) => [name, 0]));
+        const rounds: SwissRound[] = [];
+        const met = new Set<string>();
+
+        for (let number = 1; number <= maxSwissRounds(bots); number++) {
+          const ranking = names.toSorted(
+            (a, b) => (points.get(b) ?? 0) - (points.get(a) ?? 0),
+          );
+          // Greedy pairing in earlier rounds can leave no way to avoid a
+          // rematch, but the stage still goes on
+          const { rematches, ...pairing } = pairSwissRound(ranking, rounds);
+
+          const paired = pairing.pairings.flatMap(({ white, black }) => [
+            white,
+            black,
+          ]);
+          expect(
+            [...paired, ...(pairing.bye ? [pairing.bye] : [])].toSorted(),
+          ).toEqual(names.toSorted());
+
+          expect(
+            pairing.pairings.filter(({ white, black }) =>
+              met.has(pairKey(white, black)),
+            ),
+          ).toHaveLength(rematches);
+          for (const { white, black } of pairing.pairings) {
+            met.add(pairKey(white, black));
+            const winner = random() < 0.5 ? white : black;
+            points.set(winner, (points.get(winner) ?? 0) + 1);
+          }
+          rounds.push({ round: number, opening: "00.pgn", ...pairing });
+        }
+      }
+    });
+  }
+});
@@ -0,0 +1,208 @@
+import { SWISS_PAIRINGS_FILE } from "./config";
+import type { Players } from "./game";
+
+export type SwissRound = {
+  round: number;
+  // File name of the starting position in the PGN directory
+  opening: string;
+  pairings: Players[];
+  bye: string | null;
+};
+
+export type SwissState = {
+  rounds: SwissRound[];
+};
+
+export async function readSwissState(): Promise<SwissState> {
+  const file = Bun.file(SWISS_PAIRINGS_FILE);
+  if (!(await file.exists())) {
+    return { rounds: [] };
+  }
+  return (await file.json()) as SwissState;
+}
+
+export async function writeSwissState(state: SwissState) {
+  await Bun.file(SWISS_PAIRINGS_FILE).write(JSON.stringify(state, null, 2));
+}
+
+export function swissByes(state: SwissState): string[] {
+  return state.rounds.flatMap(({ bye }) => (bye ? [bye] : []));
+}
+
+/**
+ * How many rounds a field can play before a rematch is unavoidable: every
+ * bot meets every other once, with an odd field adding a round for byes.
+ */
+export function maxSwissRounds(bots: number) {
+  return bots % 2 === 0 ? bots - 1 : bots;
+}
+
+type SwissHistory = {
+  // How many times each pair of bots has met
+  opponents: Map<string, Map<string, number>>;
+  colours: Map<string, ("white" | "black")[]>;
+  // How many byes each bot has had
+  byes: Map<string, number>;
+};
+
+function buildHistory(bots: string[], rounds: SwissRound[]): SwissHistory {
+  const history: SwissHistory = {
+    opponents: new Map(bots.map((bot) => [bot, new Map()])),
+    colours: new Map(bots.map((bot) => [bot, []])),
+    byes: new Map(bots.map((bot) => [bot, 0])),
+  };
+
+  for (const round of rounds) {
+    for (const { white, black } of round.pairings) {
+      for (const [bot, opponent] of [
+        [white, black],
+        [black, white],
+      ] as const) {
+        const met = history.opponents.get(bot);
+        met?.set(opponent, (met.get(opponent) ?? 0) + 1);
+      }
+      history.colours.get(white)?.push("white");
+      history.colours.get(black)?.push("black");
+    }
+    if (round.bye) {
+      history.byes.set(round.bye, (history.byes.get(round.bye) ?? 0) + 1);
+    }
+  }
+
+  return history;
+}
+
+function colourBalance(colours: ("white" | "black")[]) {
+  return colours.reduce((acc, c) => acc + (c === "white" ? 1 : -1), 0);
+}
+
+/**
+ * Give white to whichever bot has had it least. If they're level, alternate
+ * from the last round, giving the higher ranked bot priority when both are
+ * due the same colour.
+ */
+function assignColours(
+  higher: string,
+  lower: string,
+  history: SwissHistory,
+): Players {
+  const higherColours = history.colours.get(higher) ?? [];
+  const lowerColours = history.colours.get(lower) ?? [];
+
+  const balanceDifference =
+    colourBalance(higherColours) - colourBalance(lowerColours);
+  if (balanceDifference !== 0) {
+    return balanceDifference < 0
+      ? { white: higher, black: lower }
+      : { white: lower, black: higher };
+  }
+
+  const higherLast = higherColours.at(-1);
+  const lowerLast = lowerColours.at(-1);
+  if (higherLast !== lowerLast) {
+    return higherLast === "black" || lowerLast === "white"
+      ? { white: higher, black: lower }
+      : { white: lower, black: higher };
+  }
+
+  return higherLast === "white"
+    ? { white: lower, black: higher }
+    : { white: higher, black: lower };
+}
+
+function meetings(history: SwissHistory, bot: string, opponent: string) {
+  return history.opponents.get(bot)?.get(opponent) ?? 0;
+}
+
+/**
+ * Pair the remaining bots top-down, preferring the closest ranked opponent
+ * and backtracking when the rest of the field can't be paired. A pair that
+ * has met before costs one rematch for every earlier meeting, and the
+ * pairing can't cost more than `allowedRematches` in total.
+ */
+function pairRemaining(
+  remaining: string[],
+  history: SwissHistory,
+  allowedRematches: number,
+): [string, string][] | null {
+  const [top, ...rest] = remaining;
+  if (top === undefined) {
+    return [];
+  }
+
+  for (const opponent of rest) {
+    const cost = meetings(history, top, opponent);
+    if (cost > allowedRematches) {
+      continue;
+    }
+    const pairs = pairRemaining(
+      rest.filter((bot) => bot !== opponent),
+      history,
+      allowedRematches - cost,
+    );
+    if (pairs) {
+      return [[top, opponent], ...pairs];
+    }
+  }
+
+  return null;
+}
+
+export type SwissPairing = Pick<SwissRound, "pairings" | "bye"> & {
+  rematches: number;
+};
+
+/**
+ * Pair the next round of a Swiss stage with as few rematches as possible,
+ * which is none until the field runs out of new opponents.
+ *
+ * `ranking` is every bot in the stage, best first. With an odd number of
+ * bots, the lowest ranked bot with the fewest byes so far sits the round
+ * out.
+ */
+export function pairSwissRound(
+  ranking: string[],
+  previousRounds: SwissRound[],
+): SwissPairing {
+  const history = buildHistory(ranking, previousRounds);
+
+  // Once every bot has had a bye, the ones with the fewest get another
+  const fewestByes = Math.min(
+    ...ranking.map((bot) => history.byes.get(bot) ?? 0),
+  );
+  const byeCandidates =
+    ranking.length % 2 === 0
+      ? [null]
+      : ranking
+          .toReversed()
+          .filter((bot) => (history.byes.get(bot) ?? 0) === fewestByes);
+
+  // Every pair has met at most once per round, so some pairing always fits
+  // within this many rematches
+  const mostRematches = previousRounds.length * Math.ceil(ranking.length / 2);
+  for (let rematches = 0; ; rematches++) {
+    for (const bye of byeCandidates) {
+      const pairs = pairRemaining(
+        ranking.filter((bot) => bot !== bye),
+        history,
+        rematches,
+      );
+      if (pairs) {
+        return {
+          pairings: pairs.map(([higher, lower]) =>
+            assignColours(higher, lower, history),
+          ),
+          bye,
+          rematches: pairs.reduce(
+            (total, [higher, lower]) =>
+              total + meetings(history, higher, lower),
+            0,
+          ),
+        };
+      }
+    }
+    if (rematches >= mostRematches) {
+      throw new Error(`Unable to pair ${ranking.length} bots`);
+    }
+  }
+}
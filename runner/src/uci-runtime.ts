@@ -0,0 +1,213 @@
+import { READY_TIMEOUT, UCI_DEFAULT_MOVETIME } from "./config";
+import { subprocessStatus } from "./process-runtime";
+import { Result } from "./result";
+import type { BotRuntime, UciRuntimeConfig } from "./runtime";
+
+type MoveRequest = {
+  fen: string;
+  start_fen?: string;
+  moves?: string[];
+  white_time_ms?: number;
+  black_time_ms?: number;
+  increment_ms?: number;
+};
+
+/**
+ * Split an engine's output into lines, returning a function that reads lines
+ * until one starts with the given prefix.
+ */
+function lineReader(stream: ReadableStream<Uint8Array>) {
+  const lines: string[] = [];
+  let notify = null as (() => void) | null;
+  let closed = false;
+
+  (async () => {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const chunk of stream) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const parts = buffer.split("\n");
+      buffer = parts.pop() ?? "";
+      lines.push(...parts.map((line) => line.trim()));
+      notify?.();
+    }
+    closed = true;
+    notify?.();
+  })();
+
+  return async function readUntil(prefix: string): Promise<string[]> {
+    const read: string[] = [];
+    while (true) {
+      const line = lines.shift();
+      if (line !== undefined) {
+        read.push(line);
+        if (line.startsWith(prefix)) {
+          return read;
+        }
+        continue;
+      }
+      if (closed) {
+        throw new Error(`Engine exited while waiting for "${prefix}"`);
+      }
+      await new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+      notify = null;
+    }
+  };
+}
+
+function goCommand(request: MoveRequest, movetimeMs: number) {
+  if (
+    request.white_time_ms === undefined ||
+    request.black_time_ms === undefined
+  ) {
+    return `go movetime ${movetimeMs}`;
+  }
+  const increment = request.increment_ms ?? 0;
+  return `go wtime ${request.white_time_ms} btime ${request.black_time_ms} winc ${increment} binc ${increment}`;
+}
+
+function positionCommand(request: MoveRequest) {
+  if (request.start_fen === undefined || request.moves === undefined) {
+    return `position fen ${request.fen}`;
+  }
+  return request.moves.length > 0
+    ? `position fen ${request.start_fen} moves ${request.moves.join(" ")}`
+    : `position fen ${request.start_fen}`;
+}
+
+/**
+ * Run a UCI engine as a bot. The runner talks HTTP to a small server that
+ * translates each request into UCI commands, so the engine can be played
+ * like any other entry.
+ */
+export function uciRuntime(name: string, config: UciRuntimeConfig): BotRuntime {
+  return {
+    async start(port) {
+      console.log(`Starting UCI engine ${name} on port ${port}...`);
+      const subprocess = Bun.spawn({
+        cmd: config.command,
+        cwd: config.cwd,
+        stdin: "pipe",
+        stdout: "pipe",
+        stderr: "inherit",
+      });
+      const send = (command: string) => {
+        subprocess.stdin.write(`${command}\n`);
+        subprocess.stdin.flush();
+      };
+      const readUntil = lineReader(subprocess.stdout);
+      // An engine that hangs during the handshake is stopped rather than
+      // waited on forever
+      const readUntilReady = async (prefix: string) => {
+        let timer: Timer | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `${name} didn't send "${prefix}" within ${READY_TIMEOUT}ms`,
+                ),
+              ),
+            READY_TIMEOUT,
+          );
+        });
+        try {
+          return await Promise.race([readUntil(prefix), timeout]);
+        } catch (error) {
+          subprocess.kill();
+          throw error;
+        } finally {
+          clearTimeout(timer);
+        }
+      };
+
+      send("uci");
+      const handshake = await readUntilReady("uciok");
+      const engineName = handshake
+        .find((line) => line.startsWith("id name "))
+        ?.slice("id name ".length);
+      for (const [option, value] of Object.entries(config.options ?? {})) {
+        send(`setoption name ${option} value ${value}`);
+      }
+      send("isready");
+      await readUntilReady("readyok");
+
+      // Requests are handled one at a time so commands don't interleave
+      let queue: Promise<unknown> = Promise.resolve();
+      const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+        const next = queue.then(task, task);
+        queue = next.catch(() => {});
+        return next;
+      };
+
+      const server = Bun.serve({
+        port,
+        fetch: (request) => {
+          const endpoint = new URL(request.url).pathname;
+          switch (endpoint) {
+            case "/move":
+              return enqueue(async () => {
+                const body = (await request.json()) as MoveRequest;
+                send(positionCommand(body));
+                send(
+                  goCommand(body, config.movetimeMs ?? UCI_DEFAULT_MOVETIME),
+                );
+                const linesResult = await Result.tryAsync(() =>
+                  readUntil("bestmove"),
+                );
+                if (!linesResult.ok) {
+                  // Wait for the engine to exit, so the runner sees a crash
+                  // rather than a bad response when it checks the status
+                  await subprocess.exited;
+                  return new Response(linesResult.error.message, {
+                    status: 500,
+                  });
+                }
+                const bestMove = linesResult.data.at(-1)?.split(" ")[1];
+                if (!bestMove || bestMove === "(none)") {
+                  return new Response("No move found", { status: 500 });
+                }
+                return new Response(bestMove);
+              });
+            case "/new-game":
+              return enqueue(async () => {
+                send("ucinewgame");
+                send("isready");
+                await readUntil("readyok");
+                return new Response();
+              });
+            case "/info":
+              return Response.json({
+                ...(engineName ? { name: engineName } : {}),
+                capabilities: ["uci"],
+              });
+            default:
+              return new Response();
+          }
+        },
+      });
+
+      console.log(`Started ${name}`);
+
+      return {
+        port,
+
+        async stop() {
+          console.log(`Stopping ${name} on port ${port}...`);
+          await server.stop(true);
+          subprocess.stdin.write("quit\n");
+          subprocess.stdin.end();
+          subprocess.kill();
+          await subprocess.exited;
+          console.log(`Stopped ${name}`);
+        },
+
+        async status() {
+          return Result.ok(subprocessStatus(subprocess));
+        },
+      };
+    },
+  };
+}